@@ -1,30 +1,75 @@
 import type React from "react";
-import { useCallback, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { AgendaView } from "./components/AgendaView";
+import { ColumnMapper } from "./components/ColumnMapper";
+import { DateNavigator, type EventWeek } from "./components/DateNavigator";
+import { DateOrderPrompt } from "./components/DateOrderPrompt";
+import { HistoryPanel } from "./components/HistoryPanel";
+import { ImageExportPanel } from "./components/ImageExportPanel";
+import { ImportPreview, type PreviewColumn, type PreviewRow } from "./components/ImportPreview";
+import { MonthView } from "./components/MonthView";
+import { RowsPreview } from "./components/RowsPreview";
 import { Schedule } from "./components/Schedule";
-import type { ScheduleEvent } from "./types";
-
-// Helper function to parse the specific date format 'D/M/YYYY H:mm'
-const parseDate = (dateStr: string, timeStr: string): Date | null => {
-  const dateParts = dateStr.split("/");
-  const timeParts = timeStr.split(":");
-  if (dateParts.length === 3 && timeParts.length === 2) {
-    const day = parseInt(dateParts[0], 10);
-    const month = parseInt(dateParts[1], 10) - 1; // Month is 0-indexed
-    const year = parseInt(dateParts[2], 10);
-    const hour = parseInt(timeParts[0], 10);
-    const minute = parseInt(timeParts[1], 10);
-    if (
-      !Number.isNaN(day) &&
-      !Number.isNaN(month) &&
-      !Number.isNaN(year) &&
-      !Number.isNaN(hour) &&
-      !Number.isNaN(minute)
-    ) {
-      return new Date(year, month, day, hour, minute);
-    }
-  }
-  return null;
-};
+import { ScheduleLibrary } from "./components/ScheduleLibrary";
+import { SettingsPanel } from "./components/SettingsPanel";
+import { type ReviewRow, ValidationReport } from "./components/ValidationReport";
+import type {
+  ColumnMapping,
+  DateFormatSetting,
+  DateOrder,
+  EventField,
+  LayoutSettings,
+  ScheduleEvent,
+  ScheduleView,
+} from "./types";
+import {
+  cellValue,
+  detectColumnType,
+  EVENT_FIELDS,
+  missingRequiredFields,
+  rememberMapping,
+  resolveColumnMapping,
+} from "./utils/columns";
+import { decodeText, hasBookingHeader, parseDelimited, serializeCSV } from "./utils/csv";
+import { addDays, detectDateOrder, formatWeekRange, startOfDay, startOfWeek } from "./utils/dates";
+import { downloadFile } from "./utils/download";
+import {
+  currentEvents,
+  describeEdit,
+  type EventHistory,
+  jumpTo,
+  recordStep,
+  startHistory,
+} from "./utils/history";
+import { parseHtmlTable } from "./utils/htmlTable";
+import { type ICalendarImport, parseICalendar, serializeICalendar } from "./utils/ical";
+import { eventKey, type MergeSummary, mergeEvents } from "./utils/merge";
+import { loadLayoutSettings, saveLayoutSettings } from "./utils/settings";
+import {
+  createShareUrl,
+  isShareFragment,
+  readShareFragment,
+  type SharedSchedule,
+} from "./utils/share";
+import {
+  deleteSchedule,
+  listSchedules,
+  loadLastScheduleId,
+  loadSchedule,
+  newScheduleId,
+  type SavedSchedule,
+  type ScheduleSummary,
+  saveLastScheduleId,
+  saveSchedule,
+} from "./utils/storage";
+import {
+  type EventFields,
+  endsAfterStart,
+  issueColumns,
+  type RowResult,
+  validateRows,
+} from "./utils/validation";
+import { openWorkbook, type Workbook } from "./utils/xlsx";
 
 // Exact palette extracted from the booking app screenshot (ffmpeg palettegen)
 // Mapped one-to-one by class/category keywords
@@ -131,94 +176,178 @@ const getColor = (title: string, colorMap: Map<string, { bg: string; text: strin
   return color;
 };
 
-// CSV parser utility that handles quoted fields properly
-const parseCSV = (text: string): string[][] => {
-  const result: string[][] = [];
-  const lines = text.split("\n");
-  let currentRow: string[] = [];
-  let currentField = "";
-  let insideQuotes = false;
-  let i = 0;
-
-  while (i < lines.length) {
-    const line = lines[i];
-    let charIndex = 0;
-
-    while (charIndex < line.length) {
-      const char = line[charIndex];
-
-      if (char === '"') {
-        if (insideQuotes && line[charIndex + 1] === '"') {
-          // Escaped quote
-          currentField += '"';
-          charIndex += 2;
-        } else {
-          // Toggle quote state
-          insideQuotes = !insideQuotes;
-          charIndex++;
-        }
-      } else if (char === "," && !insideQuotes) {
-        // Field separator
-        currentRow.push(currentField.trim());
-        currentField = "";
-        charIndex++;
-      } else {
-        currentField += char;
-        charIndex++;
-      }
-    }
+const DATE_FIELDS: EventField[] = ["start", "end", "startDate", "endDate"];
 
-    if (!insideQuotes) {
-      // End of row
-      currentRow.push(currentField.trim());
-      if (currentRow.some((field) => field.length > 0)) {
-        result.push(currentRow);
-      }
-      currentRow = [];
-      currentField = "";
-    } else {
-      // Continue to next line (multi-line field)
-      currentField += "\n";
-    }
+// Every date-bearing cell in the file, used to detect the day/month order
+const collectDateValues = (dataRows: string[][], mapping: ColumnMapping): string[] =>
+  dataRows.flatMap((columns) => DATE_FIELDS.map((field) => cellValue(columns, mapping, field)));
 
-    i++;
+// Color map already holding the colors assigned to the given events
+const colorMapFor = (events: ScheduleEvent[]) => {
+  const colorMap = new Map<string, { bg: string; text: string }>();
+  for (const event of events) {
+    getColor(event.title, colorMap);
   }
+  return colorMap;
+};
 
-  // Handle last row if not completed
-  if (currentRow.length > 0 || currentField.length > 0) {
-    currentRow.push(currentField.trim());
-    result.push(currentRow);
-  }
+// Turn validated rows into colored schedule events. Ids come from the event
+// content, so importing the same file twice yields the same ids.
+const toScheduleEvents = (
+  results: Array<{ rowIndex: number; fields: EventFields | null }>,
+  colorMap = new Map<string, { bg: string; text: string }>()
+): ScheduleEvent[] => {
+  const ids = new Set<string>();
+  return results.flatMap(({ fields }) => {
+    if (!fields) return [];
+    const { bg, text } = getColor(fields.title, colorMap);
+    const key = eventKey(fields);
+    let id = key;
+    for (let n = 2; ids.has(id); n++) id = `${key}#${n}`;
+    ids.add(id);
+    return [{ ...fields, id, color: `${bg} ${text}` }];
+  });
+};
 
-  return result;
+// Detect the text format (iCalendar or delimited text) and split it into rows
+const parseTextRows = (rawData: string): ICalendarImport => {
+  if (/^\uFEFF?\s*BEGIN:VCALENDAR/i.test(rawData)) {
+    // iCalendar events are converted to rows in the standard column layout
+    return parseICalendar(rawData);
+  }
+  return { rows: parseDelimited(rawData), notices: [] };
 };
 
-// Detect if input is CSV or TSV format
-const detectFormat = (text: string): "csv" | "tsv" => {
-  const firstLine = text.split("\n")[0];
-  const commaCount = (firstLine.match(/,/g) || []).length;
-  const tabCount = (firstLine.match(/\t/g) || []).length;
+// Events overlapping the period, including overnight ones that started before it
+const eventsBetween = (events: ScheduleEvent[], from: Date, to: Date) =>
+  events.filter((event) => event.start < to && event.end > from);
 
-  return commaCount > tabCount ? "csv" : "tsv";
+// Day of the earliest event, where a newly shown schedule opens
+const firstEventDay = (events: ScheduleEvent[]): Date | null =>
+  events.length > 0
+    ? startOfDay(new Date(Math.min(...events.map((e) => e.start.getTime()))))
+    : null;
+
+// "Schedule – October 2026", after the month of the first event
+const defaultScheduleName = (events: ScheduleEvent[]): string => {
+  const first = firstEventDay(events);
+  return first
+    ? `Schedule – ${first.toLocaleDateString([], { month: "long", year: "numeric" })}`
+    : "Untitled schedule";
 };
 
+// Wait this long after the last edit before writing to IndexedDB
+const AUTOSAVE_DELAY_MS = 400;
+
+const eventsInWeek = (events: ScheduleEvent[], weekStart: Date) =>
+  eventsBetween(events, weekStart, addDays(weekStart, 7));
+
+// Below this width the week grid is unreadable and the agenda is shown instead
+const NARROW_VIEWPORT = "(max-width: 640px)";
+
+const XLSX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+const isSpreadsheet = (file: File) =>
+  file.type === XLSX_MIME_TYPE || file.name.toLowerCase().endsWith(".xlsx");
+
+interface PendingImport {
+  rows: string[][];
+  mapping: ColumnMapping;
+  stage: "columns" | "dates" | "review" | "preview";
+  dateExample?: string;
+  order?: DateOrder;
+  // Rows that had problems when the review opened; they stay listed once fixed
+  reviewRows?: ReviewRow[];
+  // Parsed events awaiting confirmation in the preview step
+  preview?: PreviewRow[];
+}
+
+// A schedule as autosave writes it
+interface ScheduleSnapshot {
+  id: string;
+  name: string;
+  events: ScheduleEvent[];
+}
+
+// Rows that passed validation, all selected, ready for the preview step
+const toPreviewRows = (results: RowResult[]): PreviewRow[] =>
+  results.flatMap(({ rowIndex, fields }) => (fields ? [{ rowIndex, fields, selected: true }] : []));
+
 const App: React.FC = () => {
-  const [events, setEvents] = useState<ScheduleEvent[]>([]);
+  // Every change to the events goes through the history so it can be undone
+  const [history, setHistory] = useState<EventHistory>(() => startHistory([]));
+  const events = currentEvents(history);
   const [inputData, setInputData] = useState("");
   const [error, setError] = useState<string | null>(null);
-  const [currentWeekStart, setCurrentWeekStart] = useState<Date | null>(null);
+  // Date being viewed; the week and month views show the period containing it
+  const [currentDate, setCurrentDate] = useState<Date | null>(null);
+  const [chosenView, setChosenView] = useState<ScheduleView | null>(null);
+  const [isNarrow, setIsNarrow] = useState(() => window.matchMedia(NARROW_VIEWPORT).matches);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [inputMode, setInputMode] = useState<"text" | "file">("text");
+  const [dateFormat, setDateFormat] = useState<DateFormatSetting>("auto");
+  // Import paused for user input: unresolved columns, ambiguous dates or invalid rows
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  // Notes from reading the source (e.g. recurrences left out), shown in the preview
+  const [importNotices, setImportNotices] = useState<string[]>([]);
+  const [groupWeeklyExport, setGroupWeeklyExport] = useState(true);
+  const [workbook, setWorkbook] = useState<Workbook | null>(null);
+  const [sheetIndex, setSheetIndex] = useState(0);
+  // Rows from a pasted HTML table (Google Sheets, Excel, web pages)
+  const [pastedRows, setPastedRows] = useState<string[][] | null>(null);
+  // Importing another file while a schedule is open: replace it or merge into it
+  const [isImporting, setIsImporting] = useState(false);
+  const [importMode, setImportMode] = useState<"replace" | "merge">("merge");
+  const [mergeSummary, setMergeSummary] = useState<MergeSummary | null>(null);
+  // Render every week with events, one per printed page
+  const [printAllWeeks, setPrintAllWeeks] = useState(false);
+  const [layoutSettings, setLayoutSettings] = useState<LayoutSettings>(loadLayoutSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showImageExport, setShowImageExport] = useState(false);
+  // The schedule being edited, saved automatically; null until the first import creates one
+  const [scheduleId, setScheduleId] = useState<string | null>(null);
+  const [scheduleName, setScheduleName] = useState("");
+  const [savedSchedules, setSavedSchedules] = useState<ScheduleSummary[]>([]);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(true);
+  const [saveFailed, setSaveFailed] = useState(false);
+  // Opened from a share link: shown with the sender's layout and nothing can be edited
+  const [readOnly, setReadOnly] = useState(() => isShareFragment(window.location.hash));
+  const [sharedSettings, setSharedSettings] = useState<LayoutSettings | null>(null);
+  const [shareStatus, setShareStatus] = useState<string | null>(null);
+  // What is already in IndexedDB, so opening a schedule does not save it again
+  const persistedRef = useRef<ScheduleSnapshot | null>(null);
+  // Changes waiting for the autosave delay, written at once before leaving the schedule
+  const pendingSaveRef = useRef<{
+    snapshot: ScheduleSnapshot;
+    timer: ReturnType<typeof setTimeout>;
+  } | null>(null);
+
+  const changeEvents = useCallback(
+    (label: string, update: (events: ScheduleEvent[]) => ScheduleEvent[]) =>
+      setHistory((prev) => recordStep(prev, label, update(currentEvents(prev)))),
+    []
+  );
+
+  const canUndo = history.index > 0;
+  const canRedo = history.index < history.steps.length - 1;
+  const undo = useCallback(() => setHistory((prev) => jumpTo(prev, prev.index - 1)), []);
+  const redo = useCallback(() => setHistory((prev) => jumpTo(prev, prev.index + 1)), []);
 
-  const handleFileSelect = (file: File) => {
+  const handleFileSelect = async (file: File) => {
+    const name = file.name.toLowerCase();
     if (
       file.type !== "text/csv" &&
-      !file.name.toLowerCase().endsWith(".csv") &&
-      !file.name.toLowerCase().endsWith(".tsv")
+      file.type !== "text/calendar" &&
+      !isSpreadsheet(file) &&
+      !name.endsWith(".csv") &&
+      !name.endsWith(".tsv") &&
+      !name.endsWith(".ics")
     ) {
-      setError("Please select a CSV or TSV file.");
+      setError("Please select a CSV, TSV, Excel (.xlsx) or iCalendar (.ics) file.");
       return;
     }
     if (file.size > 5 * 1024 * 1024) {
@@ -226,8 +355,19 @@ const App: React.FC = () => {
       setError("File size must be less than 5MB.");
       return;
     }
+    setWorkbook(null);
+    setSheetIndex(0);
+    if (isSpreadsheet(file)) {
+      try {
+        setWorkbook(await openWorkbook(await file.arrayBuffer()));
+      } catch (e) {
+        setError(e instanceof Error ? e.message : "Could not read the spreadsheet.");
+        return;
+      }
+    }
     setSelectedFile(file);
     setInputMode("file");
+    setPendingImport(null);
     setError(null);
   };
 
@@ -259,6 +399,7 @@ const App: React.FC = () => {
 
   const clearFile = () => {
     setSelectedFile(null);
+    setWorkbook(null);
     setInputMode("text");
     setError(null);
   };
@@ -267,48 +408,142 @@ const App: React.FC = () => {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
       reader.onload = (e) => {
-        const content = e.target?.result as string;
-        if (!content) {
+        const content = e.target?.result;
+        if (!(content instanceof ArrayBuffer) || content.byteLength === 0) {
           reject(new Error("Failed to read file content"));
           return;
         }
-        resolve(content);
+        // Read raw bytes so legacy (non UTF-8) encodings can be detected
+        resolve(decodeText(content));
       };
       reader.onerror = () => reject(new Error("Failed to read file"));
-      reader.readAsText(file);
+      reader.readAsArrayBuffer(file);
     });
   };
 
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const html = e.clipboardData.getData("text/html");
+    const rows = html ? parseHtmlTable(html) : null;
+    // Without a table, let the textarea handle the plain text paste
+    if (!rows) return;
+    // The table replaces the whole text: keep what else is there unless the user agrees.
+    // Declining pastes it as plain text at the caret instead.
+    const { value, selectionStart, selectionEnd } = e.currentTarget;
+    const replacesEverything =
+      !value.trim() || (selectionStart === 0 && selectionEnd === value.length);
+    if (
+      !replacesEverything &&
+      !window.confirm("Replace the text in the box with the pasted table?")
+    ) {
+      return;
+    }
+    e.preventDefault();
+    setInputData(
+      e.clipboardData.getData("text/plain") || rows.map((row) => row.join("\t")).join("\n")
+    );
+    setPastedRows(rows);
+    setPendingImport(null);
+  };
+
+  const textPreviewRows = useMemo(() => {
+    if (pastedRows) return pastedRows;
+    if (!inputData.trim()) return null;
+    try {
+      return parseTextRows(inputData.trim()).rows.filter((row) =>
+        row.some((cell) => cell.length > 0)
+      );
+    } catch {
+      return null;
+    }
+  }, [inputData, pastedRows]);
+
+  const showEvents = (parsedEvents: ScheduleEvent[]) => {
+    changeEvents(
+      `Imported ${parsedEvents.length} ${parsedEvents.length === 1 ? "event" : "events"}`,
+      () => parsedEvents
+    );
+
+    const firstDay = firstEventDay(parsedEvents);
+    if (firstDay) setCurrentDate(firstDay);
+  };
+
+  const reportParseError = (e: unknown) => {
+    if (e instanceof Error) {
+      setError(`Failed to parse data: ${e.message}`);
+    } else {
+      setError("An unknown error occurred during parsing.");
+    }
+    // The open schedule is left as it was
+  };
+
+  const validationResults = useMemo(() => {
+    if (pendingImport?.stage !== "review" || !pendingImport.order) return [];
+    return validateRows(pendingImport.rows.slice(1), pendingImport.mapping, pendingImport.order);
+  }, [pendingImport]);
+
+  const previewColumns = useMemo((): PreviewColumn[] => {
+    if (pendingImport?.stage !== "preview") return [];
+    const [headers, ...dataRows] = pendingImport.rows;
+    return EVENT_FIELDS.filter(({ field }) => field !== "startDate" && field !== "endDate").map(
+      ({ field, label }) => {
+        const index = pendingImport.mapping[field];
+        if (index === undefined) return { field, label };
+        const values = dataRows.map((row) => row[index] ?? "");
+        return { field, label, header: headers[index], type: detectColumnType(values) };
+      }
+    );
+  }, [pendingImport]);
+
+  // Settle the date order (asking the user when it is ambiguous), then validate
+  // every row and preview the events, or the problem report when some rows are broken
+  const completeImport = (rows: string[][], mapping: ColumnMapping, format: DateFormatSetting) => {
+    let order: DateOrder;
+    if (format === "auto") {
+      const detection = detectDateOrder(collectDateValues(rows.slice(1), mapping));
+      if (detection.ambiguous && !hasBookingHeader(rows[0])) {
+        setPendingImport({ rows, mapping, stage: "dates", dateExample: detection.example });
+        return;
+      }
+      order = detection.order;
+    } else {
+      order = format;
+    }
+    const results = validateRows(rows.slice(1), mapping, order);
+    if (results.some((r) => r.issues.length > 0)) {
+      const reviewRows = results.flatMap(({ rowIndex, issues }) =>
+        issues.length > 0 ? [{ rowIndex, columns: issueColumns(issues) }] : []
+      );
+      setPendingImport({ rows, mapping, stage: "review", order, reviewRows });
+      return;
+    }
+    setPendingImport({ rows, mapping, stage: "preview", order, preview: toPreviewRows(results) });
+  };
+
   const handleGenerate = useCallback(async () => {
     setError(null);
+    setPendingImport(null);
     setIsProcessing(true);
 
     try {
-      let rawData = "";
+      let parsedRows: string[][];
+      let notices: string[] = [];
 
       // Get data based on input mode
-      if (inputMode === "file" && selectedFile) {
-        rawData = await processFile(selectedFile);
+      if (inputMode === "file" && selectedFile && workbook) {
+        // Spreadsheets are read cell by cell, no text parsing involved
+        parsedRows = await workbook.readSheet(sheetIndex);
+      } else if (inputMode === "file" && selectedFile) {
+        ({ rows: parsedRows, notices } = parseTextRows(await processFile(selectedFile)));
+      } else if (inputMode === "text" && inputData.trim() && pastedRows) {
+        // A pasted HTML table already carries its cell structure
+        parsedRows = pastedRows;
       } else if (inputMode === "text" && inputData.trim()) {
-        rawData = inputData.trim();
+        ({ rows: parsedRows, notices } = parseTextRows(inputData.trim()));
       } else {
         setError("Please provide schedule data either by uploading a file or pasting text.");
         return;
       }
 
-      // Detect format and parse data
-      const format = detectFormat(rawData);
-      let parsedRows: string[][];
-
-      if (format === "csv") {
-        parsedRows = parseCSV(rawData);
-      } else {
-        // TSV format - split by tabs
-        parsedRows = rawData
-          .split("\n")
-          .map((line) => line.split("\t").map((field) => field.trim()));
-      }
-
       // Remove empty rows and get header + data rows
       parsedRows = parsedRows.filter((row) => row.some((cell) => cell.length > 0));
 
@@ -317,116 +552,587 @@ const App: React.FC = () => {
         return;
       }
 
-      const dataRows = parsedRows.slice(1); // Skip header
-      const colorMap = new Map<string, { bg: string; text: string }>();
+      setImportNotices(notices);
+      const mapping = resolveColumnMapping(parsedRows[0]);
+      if (missingRequiredFields(mapping).length > 0) {
+        // Let the user resolve the remaining columns before importing
+        setPendingImport({ rows: parsedRows, mapping, stage: "columns" });
+        return;
+      }
 
-      const parsedEvents: ScheduleEvent[] = dataRows
-        .map((columns, index) => {
-          if (columns.length < 8) {
-            throw new Error(
-              `Row ${index + 2}: Not enough columns. Expected 8, found ${columns.length}.`
-            );
-          }
+      completeImport(parsedRows, mapping, dateFormat);
+    } catch (e) {
+      reportParseError(e);
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [
+    inputData,
+    inputMode,
+    selectedFile,
+    processFile,
+    dateFormat,
+    workbook,
+    sheetIndex,
+    pastedRows,
+  ]);
 
-          const [startDateStr, startTimeStr] = columns[0].split(/\s+/);
-          const [endDateStr, endTimeStr] = columns[1].split(/\s+/);
+  const handleConfirmMapping = () => {
+    if (!pendingImport) return;
+    const { rows, mapping } = pendingImport;
+    setError(null);
+    try {
+      rememberMapping(rows[0], mapping);
+      completeImport(rows, mapping, dateFormat);
+    } catch (e) {
+      reportParseError(e);
+    }
+  };
 
-          const start = parseDate(startDateStr, startTimeStr);
-          const end = parseDate(endDateStr, endTimeStr);
+  const handleChooseDateOrder = (order: DateOrder) => {
+    if (!pendingImport) return;
+    // Only this import uses the answer; the date format setting stays as it was
+    setError(null);
+    try {
+      completeImport(pendingImport.rows, pendingImport.mapping, order);
+    } catch (e) {
+      reportParseError(e);
+    }
+  };
 
-          if (!start || !end) {
-            throw new Error(
-              `Row ${index + 2}: Invalid date/time format in "${columns[0]}" or "${columns[1]}".`
-            );
-          }
+  const handleReviewCellChange = (rowIndex: number, columnIndex: number, value: string) => {
+    setPendingImport((prev) => {
+      if (!prev) return prev;
+      const rows = prev.rows.map((row, i) => {
+        // Data row indexes are offset by the header row
+        if (i !== rowIndex + 1) return row;
+        // Ragged rows can be shorter than the mapped column; pad them so the edit lands
+        const cells = [...row];
+        while (cells.length <= columnIndex) cells.push("");
+        cells[columnIndex] = value;
+        return cells;
+      });
+      return { ...prev, rows };
+    });
+  };
 
-          const title = columns[2];
-          const { bg, text } = getColor(title, colorMap);
-
-          return {
-            id: `${start.toISOString()}-${title}-${index}`,
-            start,
-            end,
-            title,
-            description: columns[3],
-            capacity: parseInt(columns[4], 10) || 0,
-            total: parseInt(columns[5], 10) || 0,
-            waiting: parseInt(columns[6], 10) || 0,
-            price: parseFloat(columns[7]) || 0,
-            color: `${bg} ${text}`,
-          };
-        })
-        .filter((e) => e.start && e.end);
-
-      setEvents(parsedEvents);
-
-      if (parsedEvents.length > 0) {
-        const firstEventDate = parsedEvents.sort((a, b) => a.start.getTime() - b.start.getTime())[0]
-          .start;
-        const weekStart = new Date(firstEventDate);
-        // Set to the Monday of that week
-        const dayOfWeek = weekStart.getDay(); // Sunday is 0, Monday is 1
-        const offset = dayOfWeek === 0 ? 6 : dayOfWeek - 1;
-        weekStart.setDate(weekStart.getDate() - offset);
-        weekStart.setHours(0, 0, 0, 0);
-        setCurrentWeekStart(weekStart);
-      }
-    } catch (e) {
-      if (e instanceof Error) {
-        setError(`Failed to parse data: ${e.message}`);
-      } else {
-        setError("An unknown error occurred during parsing.");
-      }
-      setEvents([]);
-      setCurrentWeekStart(null);
-    } finally {
-      setIsProcessing(false);
+  const handleImportValidRows = () => {
+    setPendingImport((prev) =>
+      prev ? { ...prev, stage: "preview", preview: toPreviewRows(validationResults) } : prev
+    );
+  };
+
+  const handlePreviewRowChange = (rowIndex: number, patch: Partial<PreviewRow>) => {
+    setPendingImport((prev) => {
+      if (!prev?.preview) return prev;
+      const preview = prev.preview.map((row) =>
+        row.rowIndex === rowIndex ? { ...row, ...patch } : row
+      );
+      return { ...prev, preview };
+    });
+  };
+
+  const handlePreviewSelectAll = (selected: boolean) => {
+    setPendingImport((prev) =>
+      prev?.preview ? { ...prev, preview: prev.preview.map((row) => ({ ...row, selected })) } : prev
+    );
+  };
+
+  const handleConfirmPreview = () => {
+    if (!pendingImport?.preview) return;
+    const selected = pendingImport.preview.filter((row) => row.selected);
+    if (!selected.every((row) => endsAfterStart(row.fields))) return;
+    if (importMode === "merge" && events.length > 0) {
+      const merged = mergeEvents(events, toScheduleEvents(selected, colorMapFor(events)));
+      const { added, updated } = merged.summary;
+      changeEvents(`Merged an import: ${added} added, ${updated} updated`, () => merged.events);
+      setMergeSummary(merged.summary);
+    } else {
+      showEvents(toScheduleEvents(selected));
+      setMergeSummary(null);
     }
-  }, [inputData, inputMode, selectedFile, processFile]);
+    setPendingImport(null);
+    setIsImporting(false);
+  };
+
+  const startImport = () => {
+    setIsImporting(true);
+    setImportMode("merge");
+    setMergeSummary(null);
+    setError(null);
+  };
+
+  const cancelImport = () => {
+    setIsImporting(false);
+    setPendingImport(null);
+    setError(null);
+  };
 
   const updateEvent = (updatedEvent: ScheduleEvent) => {
-    setEvents((prev) => prev.map((e) => (e.id === updatedEvent.id ? updatedEvent : e)));
+    const before = events.find((e) => e.id === updatedEvent.id);
+    if (!before) return;
+    changeEvents(describeEdit(before, updatedEvent), (prev) =>
+      prev.map((e) => (e.id === updatedEvent.id ? updatedEvent : e))
+    );
   };
 
   const deleteEvent = (eventId: string) => {
-    setEvents((prev) => prev.filter((e) => e.id !== eventId));
+    const deleted = events.find((e) => e.id === eventId);
+    if (!deleted) return;
+    changeEvents(`Deleted “${deleted.title}”`, (prev) => prev.filter((e) => e.id !== eventId));
   };
 
   const createNewEvent = (newEvent: ScheduleEvent) => {
-    const colorMap = new Map<string, { bg: string; text: string }>();
-    for (const event of events) {
-      getColor(event.title, colorMap);
+    const { bg, text } = getColor(newEvent.title, colorMapFor(events));
+
+    changeEvents(`Added “${newEvent.title}”`, (prev) => [
+      ...prev,
+      { ...newEvent, color: `${bg} ${text}` },
+    ]);
+  };
+
+  // PDF export removed: use browser's built-in print to save as PDF ("All weeks" prints
+  // one page per week). Images for social media come from the image export panel.
+
+  const exportCSV = () => {
+    downloadFile(serializeCSV(events), "schedule.csv", "text/csv;charset=utf-8");
+  };
+
+  const exportICalendar = () => {
+    const content = serializeICalendar(events, { groupWeekly: groupWeeklyExport });
+    downloadFile(content, "schedule.ics", "text/calendar;charset=utf-8");
+  };
+
+  useEffect(() => {
+    saveLayoutSettings(layoutSettings);
+  }, [layoutSettings]);
+
+  // --- Saved schedules ---
+
+  const refreshLibrary = useCallback(() => {
+    listSchedules()
+      .then(setSavedSchedules)
+      .catch(() => setSavedSchedules([]));
+  }, []);
+
+  const showSchedule = (saved: SavedSchedule) => {
+    persistedRef.current = { id: saved.id, name: saved.name, events: saved.events };
+    setHistory(startHistory(saved.events));
+    setScheduleId(saved.id);
+    setScheduleName(saved.name);
+    setCurrentDate(firstEventDay(saved.events));
+    setMergeSummary(null);
+    setPendingImport(null);
+    setIsImporting(false);
+    setShowLibrary(false);
+    saveLastScheduleId(saved.id);
+  };
+
+  // Write any waiting changes now, before the open schedule is replaced or the page goes away
+  const flushSave = useCallback(async () => {
+    const pending = pendingSaveRef.current;
+    if (!pending) return;
+    pendingSaveRef.current = null;
+    clearTimeout(pending.timer);
+    const { snapshot } = pending;
+    try {
+      await saveSchedule({ ...snapshot, updatedAt: Date.now() });
+      persistedRef.current = snapshot;
+      saveLastScheduleId(snapshot.id);
+      setSaveFailed(false);
+      refreshLibrary();
+    } catch {
+      setSaveFailed(true);
+    }
+  }, [refreshLibrary]);
+
+  const startNewSchedule = async () => {
+    await flushSave();
+    persistedRef.current = null;
+    setHistory(startHistory([]));
+    setScheduleId(null);
+    setScheduleName("");
+    setCurrentDate(null);
+    setMergeSummary(null);
+    setIsImporting(false);
+    setShowLibrary(false);
+    saveLastScheduleId(null);
+  };
+
+  const showShared = (shared: SharedSchedule) => {
+    // Not tied to a saved schedule: editing a copy saves it as a new one
+    persistedRef.current = null;
+    setScheduleId(null);
+    setReadOnly(true);
+    setShowLibrary(false);
+    setPendingImport(null);
+    setIsImporting(false);
+    setMergeSummary(null);
+    setHistory(startHistory(shared.events));
+    setScheduleName(shared.name);
+    setChosenView(shared.view);
+    setCurrentDate(startOfDay(shared.date));
+    setSharedSettings(shared.settings);
+  };
+
+  // Leave the share link for an editable copy, saved as a new schedule
+  const editSharedCopy = () => {
+    window.history.replaceState(null, "", window.location.pathname + window.location.search);
+    setReadOnly(false);
+    setSharedSettings(null);
+  };
+
+  const restoreLastSchedule = () => {
+    const lastId = loadLastScheduleId();
+    (lastId ? loadSchedule(lastId) : Promise.resolve(null))
+      .then((saved) => {
+        if (saved) showSchedule(saved);
+      })
+      .catch(() => saveLastScheduleId(null))
+      .finally(() => {
+        setIsRestoring(false);
+        refreshLibrary();
+      });
+  };
+
+  // Open a share link, or reopen the schedule that was open when the page was last closed
+  useEffect(() => {
+    if (!isShareFragment(window.location.hash)) {
+      restoreLastSchedule();
+      return;
+    }
+    readShareFragment(window.location.hash).then((shared) => {
+      if (shared) {
+        showShared(shared);
+        setIsRestoring(false);
+        return;
+      }
+      editSharedCopy();
+      setError("This share link is incomplete or damaged. Ask for a new link.");
+      restoreLastSchedule();
+    });
+  }, []);
+
+  // A share link opened in a tab that already runs the app only changes the hash
+  useEffect(() => {
+    const handleHashChange = () => {
+      const { hash } = window.location;
+      if (!isShareFragment(hash)) return;
+      flushSave()
+        .then(() => readShareFragment(hash))
+        .then((shared) => {
+          if (shared) {
+            showShared(shared);
+            return;
+          }
+          window.history.replaceState(null, "", window.location.pathname + window.location.search);
+          setError("This share link is incomplete or damaged. Ask for a new link.");
+        });
+    };
+    window.addEventListener("hashchange", handleHashChange);
+    return () => window.removeEventListener("hashchange", handleHashChange);
+  }, [flushSave]);
+
+  useEffect(() => {
+    if (!shareStatus) return;
+    const timer = setTimeout(() => setShareStatus(null), 3000);
+    return () => clearTimeout(timer);
+  }, [shareStatus]);
+
+  const copyShareLink = async () => {
+    let url: string;
+    try {
+      url = await createShareUrl({
+        name: scheduleName,
+        events,
+        view,
+        date: currentDate ?? new Date(),
+        settings: activeSettings,
+      });
+    } catch {
+      setShareStatus("This browser cannot create share links");
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(url);
+      setShareStatus("Share link copied");
+    } catch {
+      // Clipboard blocked (e.g. no permission): let the user copy it by hand
+      window.prompt("Copy this share link", url);
+    }
+  };
+
+  // Undoing past the first import leaves nothing worth saving over the stored schedule
+  const undoneToEmptyStart = !canUndo && events.length === 0;
+
+  // Save every change; the first import (or editing a shared copy) names and creates the schedule
+  useEffect(() => {
+    if (isRestoring || readOnly) return;
+    if (!scheduleId) {
+      if (events.length > 0) {
+        setScheduleId(newScheduleId());
+        setScheduleName((name) => name || defaultScheduleName(events));
+      }
+      return;
     }
-    const { bg, text } = getColor(newEvent.title, colorMap);
+    const persisted = persistedRef.current;
+    if (
+      undoneToEmptyStart ||
+      (persisted?.id === scheduleId &&
+        persisted.name === scheduleName &&
+        persisted.events === events)
+    ) {
+      pendingSaveRef.current = null;
+      return;
+    }
+    // Cleanup only stops the timer: the snapshot stays pending until replaced or flushed
+    const timer = setTimeout(flushSave, AUTOSAVE_DELAY_MS);
+    pendingSaveRef.current = { snapshot: { id: scheduleId, name: scheduleName, events }, timer };
+    return () => clearTimeout(timer);
+  }, [isRestoring, readOnly, scheduleId, scheduleName, events, undoneToEmptyStart, flushSave]);
+
+  useEffect(() => {
+    const handlePageHide = () => {
+      flushSave();
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") flushSave();
+    };
+    window.addEventListener("pagehide", handlePageHide);
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => {
+      window.removeEventListener("pagehide", handlePageHide);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, [flushSave]);
+
+  const openLibrary = () => {
+    refreshLibrary();
+    setShowLibrary(true);
+  };
+
+  const handleOpenSchedule = (id: string) => {
+    if (id === scheduleId) {
+      setShowLibrary(false);
+      return;
+    }
+    flushSave()
+      .then(() => loadSchedule(id))
+      .then((saved) => {
+        if (saved) showSchedule(saved);
+      })
+      .catch(() => setSaveFailed(true));
+  };
+
+  const handleRenameSchedule = (id: string, name: string) => {
+    // The open schedule is saved with its latest edits by the autosave
+    if (id === scheduleId) {
+      setScheduleName(name);
+      return;
+    }
+    loadSchedule(id)
+      .then((saved) =>
+        saved ? saveSchedule({ ...saved, name, updatedAt: Date.now() }) : undefined
+      )
+      .then(refreshLibrary)
+      .catch(() => setSaveFailed(true));
+  };
+
+  const handleDuplicateSchedule = (id: string) => {
+    loadSchedule(id)
+      .then((saved) =>
+        saved
+          ? saveSchedule({
+              ...saved,
+              // The open schedule may have edits that are not saved yet
+              events: id === scheduleId ? events : saved.events,
+              id: newScheduleId(),
+              name: `${saved.name} (copy)`,
+              updatedAt: Date.now(),
+            })
+          : undefined
+      )
+      .then(refreshLibrary)
+      .catch(() => setSaveFailed(true));
+  };
 
-    setEvents((prev) => [...prev, { ...newEvent, color: `${bg} ${text}` }]);
+  const handleDeleteSchedule = async (id: string) => {
+    if (id === scheduleId) {
+      await startNewSchedule();
+      setShowLibrary(true);
+    }
+    deleteSchedule(id)
+      .then(refreshLibrary)
+      .catch(() => setSaveFailed(true));
   };
 
-  // PDF export removed: use browser's built-in print to save as PDF
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), plus Ctrl+Y; text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest("input, textarea, select, [contenteditable='true']")) return;
+      const key = e.key.toLowerCase();
+      if (key === "z") {
+        e.preventDefault();
+        if (e.shiftKey) redo();
+        else undo();
+      } else if (key === "y") {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo]);
+
+  useEffect(() => {
+    const query = window.matchMedia(NARROW_VIEWPORT);
+    const handleChange = () => setIsNarrow(query.matches);
+    query.addEventListener("change", handleChange);
+    return () => query.removeEventListener("change", handleChange);
+  }, []);
 
-  // Week navigation removed for print-only use
+  // A view picked in the selector wins; otherwise the agenda on phones, the week grid elsewhere
+  const view: ScheduleView = chosenView ?? (isNarrow ? "agenda" : "week");
+  const activeSettings = sharedSettings ?? layoutSettings;
+
+  const currentWeekStart = useMemo(
+    () => (currentDate ? startOfWeek(currentDate) : null),
+    [currentDate]
+  );
+
+  const currentWeekEvents = useMemo(
+    () => (currentWeekStart ? eventsInWeek(events, currentWeekStart) : []),
+    [events, currentWeekStart]
+  );
 
-  const currentWeekEvents = useMemo(() => {
-    if (!currentWeekStart) return [];
-    const weekEnd = new Date(currentWeekStart);
-    weekEnd.setDate(weekEnd.getDate() + 7);
-    return events.filter((event) => event.start >= currentWeekStart && event.start < weekEnd);
-  }, [events, currentWeekStart]);
+  const currentDayEvents = useMemo(
+    () => (currentDate ? eventsBetween(events, currentDate, addDays(currentDate, 1)) : []),
+    [events, currentDate]
+  );
 
-  // Week range label removed for print-only use
+  // Weeks that contain events, for the week navigator
+  const eventWeeks = useMemo((): EventWeek[] => {
+    const counts = new Map<number, number>();
+    for (const event of events) {
+      // Events running past Sunday count in every week they cover; an end at
+      // midnight does not reach into the next week
+      const last = startOfWeek(new Date(Math.max(event.start.getTime(), event.end.getTime() - 1)));
+      for (let week = startOfWeek(event.start); week <= last; week = addDays(week, 7)) {
+        counts.set(week.getTime(), (counts.get(week.getTime()) ?? 0) + 1);
+      }
+    }
+    return [...counts.entries()]
+      .sort((a, b) => a[0] - b[0])
+      .map(([week, count]) => ({ weekStart: new Date(week), count }));
+  }, [events]);
 
-  if (events.length === 0) {
+  const renderCurrentView = () => {
+    if (!currentDate || !currentWeekStart) return null;
+    if (view === "month") {
+      return (
+        <MonthView
+          events={events}
+          month={currentDate}
+          onDaySelect={(day) => {
+            setCurrentDate(day);
+            setChosenView("day");
+          }}
+        />
+      );
+    }
+    if (view === "agenda") return <AgendaView events={currentWeekEvents} />;
+    return (
+      <Schedule
+        events={view === "day" ? currentDayEvents : currentWeekEvents}
+        weekStart={currentWeekStart}
+        day={view === "day" ? currentDate : undefined}
+        settings={activeSettings}
+        readOnly={readOnly}
+        onEventUpdate={updateEvent}
+        onEventDelete={deleteEvent}
+        onEventCreate={createNewEvent}
+      />
+    );
+  };
+
+  if (isRestoring) {
+    return (
+      <p className="min-h-screen bg-slate-50 flex items-center justify-center text-slate-500">
+        Loading your schedule…
+      </p>
+    );
+  }
+
+  if (showLibrary) {
+    return (
+      <ScheduleLibrary
+        schedules={savedSchedules}
+        currentId={scheduleId}
+        onOpen={handleOpenSchedule}
+        onRename={handleRenameSchedule}
+        onDuplicate={handleDuplicateSchedule}
+        onDelete={handleDeleteSchedule}
+        onNew={startNewSchedule}
+        onBack={events.length > 0 ? () => setShowLibrary(false) : undefined}
+      />
+    );
+  }
+
+  if (pendingImport?.stage === "preview" && pendingImport.preview) {
+    return (
+      <ImportPreview
+        rows={pendingImport.preview}
+        columns={previewColumns}
+        notices={importNotices}
+        onRowChange={handlePreviewRowChange}
+        onSelectAll={handlePreviewSelectAll}
+        onConfirm={handleConfirmPreview}
+        onBack={() => setPendingImport(null)}
+      />
+    );
+  }
+
+  // An emptied schedule stays on screen while its history can bring the events back
+  if ((events.length === 0 && history.steps.length === 1) || isImporting) {
     return (
       <div className="min-h-screen bg-slate-50 text-slate-800 flex flex-col items-center justify-center p-4">
         <div className="w-full max-w-4xl bg-white p-8 rounded-2xl shadow-lg border border-slate-200">
           <div className="text-center mb-6">
             <h1 className="text-4xl font-bold text-slate-900">Schedule Beautifier</h1>
             <p className="text-slate-500 mt-2">
-              Upload a CSV/TSV file or paste your schedule data to generate a beautiful calendar
-              view.
+              Upload a CSV/TSV, Excel or iCalendar file or paste your schedule data to generate a
+              beautiful calendar view.
             </p>
           </div>
 
+          {events.length > 0 && (
+            <fieldset className="flex flex-wrap items-center justify-center gap-4 mb-6 text-sm text-slate-600">
+              <legend className="sr-only">Import mode</legend>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="import-mode"
+                  checked={importMode === "merge"}
+                  onChange={() => setImportMode("merge")}
+                  className="text-violet-600 focus:ring-violet-500"
+                />
+                Add to the current schedule ({events.length} events)
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="import-mode"
+                  checked={importMode === "replace"}
+                  onChange={() => setImportMode("replace")}
+                  className="text-violet-600 focus:ring-violet-500"
+                />
+                Replace the current schedule
+              </label>
+            </fieldset>
+          )}
+
           {/* Input Mode Toggle */}
           <div className="flex justify-center mb-6">
             <div className="bg-slate-100 p-1 rounded-lg">
@@ -474,7 +1180,7 @@ const App: React.FC = () => {
                   }}
                   role="button"
                   tabIndex={0}
-                  aria-label="Drag and drop CSV file here or press Enter to choose file"
+                  aria-label="Drag and drop CSV, Excel or iCalendar file here or press Enter to choose file"
                 >
                   <div className="flex flex-col items-center">
                     <svg
@@ -493,7 +1199,7 @@ const App: React.FC = () => {
                       />
                     </svg>
                     <p className="text-lg font-medium text-slate-700 mb-2">
-                      Drag & drop your CSV file here
+                      Drag & drop your CSV, Excel or .ics file here
                     </p>
                     <p className="text-slate-500 mb-4">or</p>
                     <label className="cursor-pointer bg-violet-600 text-white px-6 py-2 rounded-lg hover:bg-violet-700 transition-colors">
@@ -501,12 +1207,14 @@ const App: React.FC = () => {
                       <input
                         id="file-input"
                         type="file"
-                        accept=".csv,.tsv"
+                        accept=".csv,.tsv,.xlsx,.ics"
                         onChange={handleFileInputChange}
                         className="hidden"
                       />
                     </label>
-                    <p className="text-xs text-slate-400 mt-2">CSV or TSV files up to 5MB</p>
+                    <p className="text-xs text-slate-400 mt-2">
+                      CSV, TSV, Excel or iCalendar files up to 5MB
+                    </p>
                   </div>
                 </div>
               ) : (
@@ -533,6 +1241,25 @@ const App: React.FC = () => {
                         </p>
                       </div>
                     </div>
+                    {workbook && workbook.sheetNames.length > 1 && (
+                      <label className="flex items-center gap-2 text-sm text-slate-600">
+                        Sheet
+                        <select
+                          value={sheetIndex}
+                          onChange={(e) => {
+                            setSheetIndex(parseInt(e.target.value, 10));
+                            setPendingImport(null);
+                          }}
+                          className="px-2 py-1 border border-slate-300 rounded-md bg-white"
+                        >
+                          {workbook.sheetNames.map((sheetName, i) => (
+                            <option key={sheetName} value={i}>
+                              {sheetName}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                    )}
                     <button
                       onClick={clearFile}
                       className="text-slate-400 hover:text-red-500 transition-colors"
@@ -562,20 +1289,78 @@ const App: React.FC = () => {
             <div className="mb-6">
               <textarea
                 value={inputData}
-                onChange={(e) => setInputData(e.target.value)}
+                onChange={(e) => {
+                  setInputData(e.target.value);
+                  setPastedRows(null);
+                }}
+                onPaste={handlePaste}
                 className="w-full h-64 p-4 border border-slate-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-violet-500 focus:border-violet-500 transition-shadow duration-200"
                 placeholder={`Hora de inicio,Hora de finalización,Título,Descripción,Capacidad,Total,Esperando,Precio
 8/9/2025 8:30,8/9/2025 9:30,Stretching (Spagat),...,10,1,0,1.00`}
               />
+              {textPreviewRows && (
+                <RowsPreview
+                  rows={textPreviewRows}
+                  source={pastedRows ? "Pasted table" : "Detected rows"}
+                />
+              )}
             </div>
           )}
 
+          <div className="flex items-center justify-end gap-2 mb-4 text-sm">
+            <label htmlFor="date-format" className="text-slate-600">
+              Date format
+            </label>
+            <select
+              id="date-format"
+              value={dateFormat}
+              onChange={(e) => setDateFormat(e.target.value as DateFormatSetting)}
+              className="px-2 py-1 border border-slate-300 rounded-md bg-white"
+            >
+              <option value="auto">Auto-detect</option>
+              <option value="dmy">Day/Month/Year (8/9/2025 = 8 Sep)</option>
+              <option value="mdy">Month/Day/Year (8/9/2025 = Aug 9)</option>
+            </select>
+          </div>
+
+          {pendingImport?.stage === "columns" && (
+            <ColumnMapper
+              headers={pendingImport.rows[0]}
+              sampleRow={pendingImport.rows[1] ?? []}
+              mapping={pendingImport.mapping}
+              onChange={(mapping) => setPendingImport({ ...pendingImport, mapping })}
+              onConfirm={handleConfirmMapping}
+              onCancel={() => setPendingImport(null)}
+            />
+          )}
+
+          {pendingImport?.stage === "dates" && (
+            <DateOrderPrompt
+              example={pendingImport.dateExample ?? ""}
+              onChoose={handleChooseDateOrder}
+              onCancel={() => setPendingImport(null)}
+            />
+          )}
+
+          {pendingImport?.stage === "review" && (
+            <ValidationReport
+              headers={pendingImport.rows[0]}
+              dataRows={pendingImport.rows.slice(1)}
+              results={validationResults}
+              reviewRows={pendingImport.reviewRows ?? []}
+              onCellChange={handleReviewCellChange}
+              onConfirm={handleImportValidRows}
+              onCancel={() => setPendingImport(null)}
+            />
+          )}
+
           {error && <p className="text-red-500 mb-4 text-sm">{error}</p>}
 
           <button
             onClick={handleGenerate}
             disabled={
               isProcessing ||
+              pendingImport !== null ||
               (inputMode === "file" && !selectedFile) ||
               (inputMode === "text" && !inputData.trim())
             }
@@ -583,6 +1368,22 @@ const App: React.FC = () => {
           >
             {isProcessing ? "Processing..." : "Generate Schedule"}
           </button>
+          {events.length > 0 && (
+            <button
+              onClick={cancelImport}
+              className="w-full mt-2 text-sm text-slate-500 hover:text-slate-700"
+            >
+              Back to schedule
+            </button>
+          )}
+          {savedSchedules.length > 0 && (
+            <button
+              onClick={openLibrary}
+              className="w-full mt-2 text-sm text-violet-700 hover:text-violet-900"
+            >
+              Open a saved schedule ({savedSchedules.length})
+            </button>
+          )}
         </div>
       </div>
     );
@@ -590,18 +1391,223 @@ const App: React.FC = () => {
 
   return (
     <div className="bg-slate-100 min-h-screen p-4 sm:p-6 lg:p-8 font-sans">
+      {/* Toolbar (hidden in print output) */}
+      <div className="print:hidden flex flex-wrap items-center justify-end gap-3 mb-4 text-sm">
+        {currentDate && (
+          <div className="w-full">
+            <DateNavigator
+              date={currentDate}
+              view={view}
+              eventWeeks={eventWeeks}
+              onChange={setCurrentDate}
+              onViewChange={setChosenView}
+            />
+          </div>
+        )}
+        {mergeSummary && (
+          <p className="mr-auto text-slate-600">
+            Import merged: {mergeSummary.added} added, {mergeSummary.updated} updated,{" "}
+            {mergeSummary.skipped} skipped as duplicates
+            <button
+              onClick={() => setMergeSummary(null)}
+              className="ml-2 text-slate-400 hover:text-slate-600"
+              aria-label="Dismiss import summary"
+            >
+              ×
+            </button>
+          </p>
+        )}
+        <p className="mr-auto flex items-center gap-2">
+          <span className="font-semibold text-slate-800">{scheduleName}</span>
+          {readOnly && (
+            <>
+              <span className="text-slate-500">· Shared read-only copy</span>
+              <button onClick={editSharedCopy} className="text-violet-700 hover:text-violet-900">
+                Edit a copy
+              </button>
+            </>
+          )}
+          {saveFailed && (
+            <span className="text-amber-700">Not saved: this browser blocked local storage</span>
+          )}
+        </p>
+        {!readOnly && (
+          <button
+            onClick={openLibrary}
+            className="bg-white text-slate-700 font-semibold py-2 px-4 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors shadow-sm"
+          >
+            Schedules
+          </button>
+        )}
+        {!readOnly && (
+          <div className="flex" role="group" aria-label="Edit history">
+            <button
+              onClick={undo}
+              disabled={!canUndo}
+              title={
+                canUndo ? `Undo: ${history.steps[history.index].label} (Ctrl+Z)` : "Nothing to undo"
+              }
+              aria-keyshortcuts="Control+Z"
+              className="bg-white text-slate-700 font-semibold py-2 px-3 border border-slate-300 rounded-l-lg hover:bg-slate-50 transition-colors shadow-sm disabled:opacity-40 disabled:hover:bg-white"
+            >
+              ↶ Undo
+            </button>
+            <button
+              onClick={redo}
+              disabled={!canRedo}
+              title={
+                canRedo
+                  ? `Redo: ${history.steps[history.index + 1].label} (Ctrl+Shift+Z)`
+                  : "Nothing to redo"
+              }
+              aria-keyshortcuts="Control+Shift+Z"
+              className="bg-white text-slate-700 font-semibold py-2 px-3 border-y border-slate-300 hover:bg-slate-50 transition-colors shadow-sm disabled:opacity-40 disabled:hover:bg-white"
+            >
+              ↷ Redo
+            </button>
+            <button
+              onClick={() => setShowHistory((open) => !open)}
+              aria-expanded={showHistory}
+              className="bg-white text-slate-700 font-semibold py-2 px-3 border border-slate-300 rounded-r-lg hover:bg-slate-50 transition-colors shadow-sm"
+            >
+              History
+            </button>
+          </div>
+        )}
+        {!readOnly && (
+          <button
+            onClick={startImport}
+            className="bg-white text-slate-700 font-semibold py-2 px-4 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors shadow-sm"
+          >
+            Import more
+          </button>
+        )}
+        <label className="flex items-center gap-2 text-slate-600">
+          <input
+            type="checkbox"
+            checked={groupWeeklyExport}
+            onChange={(e) => setGroupWeeklyExport(e.target.checked)}
+            className="rounded border-slate-300 text-violet-600 focus:ring-violet-500"
+          />
+          Group weekly classes into series
+        </label>
+        <button
+          onClick={exportCSV}
+          className="bg-white text-slate-700 font-semibold py-2 px-4 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors shadow-sm"
+        >
+          Export CSV
+        </button>
+        <button
+          onClick={exportICalendar}
+          className="bg-white text-slate-700 font-semibold py-2 px-4 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors shadow-sm"
+        >
+          Export .ics
+        </button>
+        {!readOnly && (
+          <button
+            onClick={() => setShowSettings((open) => !open)}
+            aria-expanded={showSettings}
+            className="bg-white text-slate-700 font-semibold py-2 px-4 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors shadow-sm"
+          >
+            Layout
+          </button>
+        )}
+        <button
+          onClick={() => setShowImageExport((open) => !open)}
+          aria-expanded={showImageExport}
+          className="bg-white text-slate-700 font-semibold py-2 px-4 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors shadow-sm"
+        >
+          Export image
+        </button>
+        <button
+          onClick={copyShareLink}
+          className="bg-white text-slate-700 font-semibold py-2 px-4 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors shadow-sm"
+        >
+          Copy share link
+        </button>
+        {shareStatus && (
+          <span role="status" className="text-slate-600">
+            {shareStatus}
+          </span>
+        )}
+        {view === "week" && (
+          <label className="flex items-center gap-2 text-slate-600">
+            <input
+              type="checkbox"
+              checked={printAllWeeks}
+              onChange={(e) => setPrintAllWeeks(e.target.checked)}
+              className="rounded border-slate-300 text-violet-600 focus:ring-violet-500"
+            />
+            All weeks ({eventWeeks.length})
+          </label>
+        )}
+        <button
+          onClick={() => window.print()}
+          className="bg-violet-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-violet-700 transition-colors shadow-sm"
+        >
+          Print
+        </button>
+      </div>
+      {showImageExport && currentWeekStart && (
+        <div className="print:hidden">
+          <ImageExportPanel
+            events={currentWeekEvents}
+            weekStart={currentWeekStart}
+            settings={activeSettings}
+            onClose={() => setShowImageExport(false)}
+          />
+        </div>
+      )}
+      {showHistory && (
+        <div className="print:hidden">
+          <HistoryPanel
+            history={history}
+            onJump={(index) => setHistory((prev) => jumpTo(prev, index))}
+            onClose={() => setShowHistory(false)}
+          />
+        </div>
+      )}
+      {showSettings && (
+        <div className="print:hidden">
+          <SettingsPanel
+            settings={layoutSettings}
+            onChange={setLayoutSettings}
+            onClose={() => setShowSettings(false)}
+          />
+        </div>
+      )}
       <div
         id="schedule-to-print"
         className="bg-white p-4 rounded-lg shadow-md border border-slate-200"
       >
-        {currentWeekStart && (
-          <Schedule
-            events={currentWeekEvents}
-            weekStart={currentWeekStart}
-            onEventUpdate={updateEvent}
-            onEventDelete={deleteEvent}
-            onEventCreate={createNewEvent}
-          />
+        {events.length === 0 ? (
+          <p className="py-16 text-center text-slate-500">
+            No events. Undo to bring them back, or import a file.
+          </p>
+        ) : view === "week" && printAllWeeks ? (
+          eventWeeks.map(({ weekStart }, i) => (
+            <section
+              key={weekStart.getTime()}
+              // One week per page; the last one must not add a blank trailing page
+              style={{ breakAfter: i < eventWeeks.length - 1 ? "page" : "auto" }}
+              className="mb-8 last:mb-0 print:mb-0"
+            >
+              <h2 className="text-lg font-semibold text-slate-800 mb-2">
+                {formatWeekRange(weekStart)}
+              </h2>
+              <Schedule
+                events={eventsInWeek(events, weekStart)}
+                weekStart={weekStart}
+                settings={activeSettings}
+                readOnly={readOnly}
+                onEventUpdate={updateEvent}
+                onEventDelete={deleteEvent}
+                onEventCreate={createNewEvent}
+              />
+            </section>
+          ))
+        ) : (
+          renderCurrentView()
         )}
       </div>
     </div>
@@ -0,0 +1,74 @@
+import type React from "react";
+import { useMemo } from "react";
+import type { ScheduleEvent } from "../types";
+import { formatTime, startOfDay } from "../utils/dates";
+
+interface AgendaViewProps {
+  events: ScheduleEvent[];
+}
+
+// "6 spots left", "Full · 2 waiting"; nothing when the capacity is unknown
+const formatAvailability = (event: ScheduleEvent): string => {
+  if (event.capacity <= 0) return "";
+  const left = event.capacity - event.total;
+  const availability = left > 0 ? `${left} ${left === 1 ? "spot" : "spots"} left` : "Full";
+  return event.waiting > 0 ? `${availability} · ${event.waiting} waiting` : availability;
+};
+
+export const AgendaView: React.FC<AgendaViewProps> = ({ events }) => {
+  const days = useMemo(() => {
+    const byDay = new Map<number, ScheduleEvent[]>();
+    const sorted = [...events].sort((a, b) => a.start.getTime() - b.start.getTime());
+    for (const event of sorted) {
+      const day = startOfDay(event.start).getTime();
+      byDay.set(day, [...(byDay.get(day) ?? []), event]);
+    }
+    return [...byDay.entries()].map(([day, dayEvents]) => ({ day: new Date(day), dayEvents }));
+  }, [events]);
+
+  if (days.length === 0) {
+    return <p className="text-slate-500 text-sm py-8 text-center">No events this week.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {days.map(({ day, dayEvents }) => (
+        <section key={day.getTime()} aria-label={day.toLocaleDateString([], { dateStyle: "full" })}>
+          <h3 className="font-semibold text-slate-800 border-b border-slate-200 pb-1 mb-2 capitalize">
+            {day.toLocaleDateString([], { weekday: "long", day: "numeric", month: "long" })}
+          </h3>
+          <ol className="space-y-2">
+            {dayEvents.map((event) => {
+              const availability = formatAvailability(event);
+              return (
+                <li key={event.id} className="flex gap-3 break-inside-avoid">
+                  <span
+                    className={`w-1.5 shrink-0 rounded-full border ${event.color}`}
+                    aria-hidden="true"
+                  />
+                  <div className="min-w-0">
+                    <p className="text-sm">
+                      <time
+                        dateTime={event.start.toISOString()}
+                        className="font-mono text-slate-600"
+                      >
+                        {formatTime(event.start)}–{formatTime(event.end)}
+                      </time>{" "}
+                      <span className="font-semibold text-slate-900">{event.title}</span>
+                    </p>
+                    {event.description && (
+                      <p className="text-sm text-slate-600 whitespace-pre-line">
+                        {event.description}
+                      </p>
+                    )}
+                    {availability && <p className="text-xs text-slate-500">{availability}</p>}
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        </section>
+      ))}
+    </div>
+  );
+};
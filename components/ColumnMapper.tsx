@@ -0,0 +1,102 @@
+import type React from "react";
+import { useId } from "react";
+import type { ColumnMapping, EventField } from "../types";
+import { EVENT_FIELDS } from "../utils/columns";
+
+interface ColumnMapperProps {
+  headers: string[];
+  sampleRow: string[];
+  mapping: ColumnMapping;
+  onChange: (mapping: ColumnMapping) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export const ColumnMapper: React.FC<ColumnMapperProps> = ({
+  headers,
+  sampleRow,
+  mapping,
+  onChange,
+  onConfirm,
+  onCancel,
+}) => {
+  const idPrefix = useId();
+
+  const handleSelect = (field: EventField, value: string) => {
+    const next: ColumnMapping = { ...mapping };
+    if (value === "") {
+      delete next[field];
+    } else {
+      const index = parseInt(value, 10);
+      // A column can feed only one field: unassign it elsewhere
+      for (const { field: other } of EVENT_FIELDS) {
+        if (next[other] === index) delete next[other];
+      }
+      next[field] = index;
+    }
+    onChange(next);
+  };
+
+  const isComplete = EVENT_FIELDS.every(
+    ({ field, required }) => !required || mapping[field] !== undefined
+  );
+
+  return (
+    <div className="mb-6 border border-amber-300 bg-amber-50 rounded-lg p-4">
+      <h2 className="font-semibold text-slate-800">Match your columns</h2>
+      <p className="text-sm text-slate-600 mt-1 mb-4">
+        Some columns could not be recognized automatically. Choose which column holds each field;
+        your choice will be remembered for the next import.
+      </p>
+      <div className="space-y-2">
+        {EVENT_FIELDS.map(({ field, label, required }) => {
+          const selectId = `${idPrefix}-${field}`;
+          const index = mapping[field];
+          const isMissing = required && index === undefined;
+          return (
+            <div key={field} className="grid grid-cols-[8rem_1fr_1fr] gap-3 items-center">
+              <label htmlFor={selectId} className="text-sm font-medium text-slate-700">
+                {label}
+                {required && <span className="text-red-500"> *</span>}
+              </label>
+              <select
+                id={selectId}
+                value={index ?? ""}
+                onChange={(e) => handleSelect(field, e.target.value)}
+                className={`px-2 py-1 border rounded-md text-sm bg-white ${
+                  isMissing ? "border-red-400" : "border-slate-300"
+                }`}
+              >
+                <option value="">— Not mapped —</option>
+                {headers.map((header, i) => (
+                  // biome-ignore lint/suspicious/noArrayIndexKey: header names may repeat; position is the identity
+                  <option key={i} value={i}>
+                    {`Column ${i + 1}: ${header || "(empty)"}`}
+                  </option>
+                ))}
+              </select>
+              <span className="text-xs text-slate-500 truncate">
+                {index !== undefined ? sampleRow[index] : ""}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex justify-end gap-2 mt-4">
+        <button
+          onClick={onCancel}
+          className="bg-white text-slate-700 font-semibold py-2 px-4 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors shadow-sm"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={onConfirm}
+          disabled={!isComplete}
+          className="bg-violet-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-violet-700 transition-all duration-200 shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Import with this mapping
+        </button>
+      </div>
+    </div>
+  );
+};
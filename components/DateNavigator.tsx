@@ -0,0 +1,127 @@
+import type React from "react";
+import type { ScheduleView } from "../types";
+import { addDays, formatDateTimeLocal, formatWeekRange, startOfWeek } from "../utils/dates";
+
+export interface EventWeek {
+  weekStart: Date;
+  count: number;
+}
+
+interface DateNavigatorProps {
+  date: Date;
+  view: ScheduleView;
+  // Weeks of the imported data that contain at least one event, in order
+  eventWeeks: EventWeek[];
+  onChange: (date: Date) => void;
+  onViewChange: (view: ScheduleView) => void;
+}
+
+const VIEWS: Array<{ view: ScheduleView; label: string }> = [
+  { view: "day", label: "Day" },
+  { view: "week", label: "Week" },
+  { view: "month", label: "Month" },
+  { view: "agenda", label: "Agenda" },
+];
+
+const buttonClass =
+  "bg-white text-slate-700 font-semibold py-1.5 px-3 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors shadow-sm";
+
+// Move one day, week or month forward (1) or back (-1); the agenda lists a week
+const step = (date: Date, view: ScheduleView, direction: 1 | -1): Date => {
+  if (view === "day") return addDays(date, direction);
+  if (view === "month") return new Date(date.getFullYear(), date.getMonth() + direction, 1);
+  return addDays(date, 7 * direction);
+};
+
+const formatPeriod = (date: Date, view: ScheduleView): string => {
+  if (view === "day") return date.toLocaleDateString([], { dateStyle: "full" });
+  if (view === "month") return date.toLocaleDateString([], { month: "long", year: "numeric" });
+  return formatWeekRange(startOfWeek(date));
+};
+
+export const DateNavigator: React.FC<DateNavigatorProps> = ({
+  date,
+  view,
+  eventWeeks,
+  onChange,
+  onViewChange,
+}) => {
+  const handleJump = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const [year, month, day] = e.target.value.split("-").map(Number);
+    if (!year || !month || !day) return;
+    onChange(new Date(year, month - 1, day));
+  };
+
+  const currentWeek = startOfWeek(date).getTime();
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-sm">
+      <div className="bg-slate-100 p-1 rounded-lg" role="group" aria-label="View">
+        {VIEWS.map((option) => (
+          <button
+            key={option.view}
+            onClick={() => onViewChange(option.view)}
+            aria-pressed={view === option.view}
+            className={`px-3 py-1 rounded-md transition-all ${
+              view === option.view
+                ? "bg-white shadow-sm text-violet-700 font-semibold"
+                : "text-slate-600 hover:text-slate-800"
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => onChange(step(date, view, -1))}
+          className={buttonClass}
+          aria-label={`Previous ${view}`}
+        >
+          ‹
+        </button>
+        <span className="min-w-44 text-center font-semibold text-slate-800" aria-live="polite">
+          {formatPeriod(date, view)}
+        </span>
+        <button
+          onClick={() => onChange(step(date, view, 1))}
+          className={buttonClass}
+          aria-label={`Next ${view}`}
+        >
+          ›
+        </button>
+      </div>
+      <label className="flex items-center gap-2 text-slate-600">
+        Go to
+        <input
+          type="date"
+          value={formatDateTimeLocal(date).slice(0, 10)}
+          onChange={handleJump}
+          className="px-2 py-1 border border-slate-300 rounded-md bg-white"
+        />
+      </label>
+      {eventWeeks.length > 1 && (
+        <nav aria-label="Weeks with events" className="flex flex-wrap gap-1">
+          {eventWeeks.map(({ weekStart: week, count }) => {
+            const isCurrent = week.getTime() === currentWeek;
+            return (
+              <button
+                key={week.getTime()}
+                onClick={() => onChange(week)}
+                aria-current={isCurrent ? "true" : undefined}
+                title={`${formatWeekRange(week)}: ${count} ${count === 1 ? "event" : "events"}`}
+                className={`px-2 py-1 rounded-md border text-xs ${
+                  isCurrent
+                    ? "bg-violet-600 border-violet-600 text-white"
+                    : "bg-white border-slate-300 text-slate-600 hover:bg-slate-50"
+                }`}
+              >
+                {week.toLocaleDateString([], { day: "numeric", month: "short" })}
+              </button>
+            );
+          })}
+        </nav>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import type React from "react";
+import type { DateOrder } from "../types";
+import { parseDateTime } from "../utils/dates";
+
+interface DateOrderPromptProps {
+  example: string;
+  onChoose: (order: DateOrder) => void;
+  onCancel: () => void;
+}
+
+const describe = (example: string, order: DateOrder): string =>
+  parseDateTime(example, order)?.toLocaleDateString([], {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  }) ?? "invalid";
+
+export const DateOrderPrompt: React.FC<DateOrderPromptProps> = ({
+  example,
+  onChoose,
+  onCancel,
+}) => {
+  return (
+    <div className="mb-6 border border-amber-300 bg-amber-50 rounded-lg p-4">
+      <h2 className="font-semibold text-slate-800">Ambiguous dates</h2>
+      <p className="text-sm text-slate-600 mt-1 mb-4">
+        Every date in this file fits both day/month and month/day order. For example,{" "}
+        <span className="font-mono">{example}</span> could be {describe(example, "dmy")} or{" "}
+        {describe(example, "mdy")}. Choose how to read them:
+      </p>
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="bg-white text-slate-700 font-semibold py-2 px-4 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors shadow-sm"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onChoose("mdy")}
+          className="bg-white text-violet-700 font-semibold py-2 px-4 border border-violet-300 rounded-lg hover:bg-violet-50 transition-colors shadow-sm"
+        >
+          Month/Day/Year
+        </button>
+        <button
+          onClick={() => onChoose("dmy")}
+          className="bg-violet-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-violet-700 transition-all duration-200 shadow-sm"
+        >
+          Day/Month/Year
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import type React from "react";
+import type { EventHistory } from "../utils/history";
+
+interface HistoryPanelProps {
+  history: EventHistory;
+  // Undo or redo up to the given step
+  onJump: (index: number) => void;
+  onClose: () => void;
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onJump, onClose }) => (
+  <section
+    aria-label="Edit history"
+    className="mb-4 border border-slate-200 bg-white rounded-lg p-4 shadow-sm text-sm text-slate-600"
+  >
+    <div className="flex items-center justify-between mb-3">
+      <h2 className="font-semibold text-slate-800">History</h2>
+      <button onClick={onClose} className="text-slate-500 hover:text-slate-700 font-medium">
+        Close
+      </button>
+    </div>
+    {/* Newest first; undone steps stay listed until a new change replaces them */}
+    <ol className="max-h-60 overflow-y-auto divide-y divide-slate-100">
+      {history.steps
+        .map((step, index) => ({ step, index }))
+        .reverse()
+        .map(({ step, index }) => {
+          const isCurrent = index === history.index;
+          const isUndone = index > history.index;
+          return (
+            <li key={index}>
+              <button
+                onClick={() => onJump(index)}
+                disabled={isCurrent}
+                aria-current={isCurrent ? "step" : undefined}
+                className={`w-full text-left px-2 py-1.5 rounded-md hover:bg-slate-50 disabled:hover:bg-transparent ${
+                  isCurrent
+                    ? "font-semibold text-violet-700"
+                    : isUndone
+                      ? "text-slate-400 italic"
+                      : ""
+                }`}
+              >
+                {step.label}
+                {isCurrent && <span className="ml-2 text-xs font-normal">(current)</span>}
+                {isUndone && <span className="ml-2 text-xs not-italic">(undone)</span>}
+              </button>
+            </li>
+          );
+        })}
+    </ol>
+  </section>
+);
@@ -0,0 +1,125 @@
+import type React from "react";
+import { useMemo, useState } from "react";
+import type { LayoutSettings, ScheduleEvent } from "../types";
+import { formatDateTimeLocal, formatWeekRange } from "../utils/dates";
+import { downloadFile } from "../utils/download";
+import { IMAGE_PRESETS, type ImagePreset, rasterizeSvg, renderWeekSvg } from "../utils/imageExport";
+
+interface ImageExportPanelProps {
+  // Events of the week to draw
+  events: ScheduleEvent[];
+  weekStart: Date;
+  settings: LayoutSettings;
+  onClose: () => void;
+}
+
+const selectClass = "px-2 py-1 border border-slate-300 rounded-md bg-white";
+const buttonClass =
+  "bg-white text-slate-700 font-semibold py-2 px-4 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors shadow-sm disabled:opacity-50";
+
+export const ImageExportPanel: React.FC<ImageExportPanelProps> = ({
+  events,
+  weekStart,
+  settings,
+  onClose,
+}) => {
+  const [preset, setPreset] = useState<ImagePreset>("square");
+  const [title, setTitle] = useState("");
+  const [showWeekLabel, setShowWeekLabel] = useState(true);
+  const [isRendering, setIsRendering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const svg = useMemo(
+    () =>
+      renderWeekSvg(events, weekStart, {
+        preset,
+        settings,
+        title: title.trim() || undefined,
+        weekLabel: showWeekLabel ? formatWeekRange(weekStart) : undefined,
+      }),
+    [events, weekStart, settings, preset, title, showWeekLabel]
+  );
+
+  const filename = `schedule-${formatDateTimeLocal(weekStart).slice(0, 10)}-${preset}`;
+
+  const downloadPng = async () => {
+    const { width, height } = IMAGE_PRESETS[preset];
+    setIsRendering(true);
+    setError(null);
+    try {
+      downloadFile(await rasterizeSvg(svg, width, height), `${filename}.png`, "image/png");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not create the PNG.");
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  return (
+    <section
+      aria-label="Image export"
+      className="mb-4 border border-slate-200 bg-white rounded-lg p-4 shadow-sm text-sm text-slate-600"
+    >
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="font-semibold text-slate-800">Export image</h2>
+        <button onClick={onClose} className="text-slate-500 hover:text-slate-700 font-medium">
+          Close
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-6">
+        <div className="space-y-3">
+          <label className="flex items-center gap-2">
+            Size
+            <select
+              value={preset}
+              onChange={(e) => setPreset(e.target.value as ImagePreset)}
+              className={selectClass}
+            >
+              {(Object.keys(IMAGE_PRESETS) as ImagePreset[]).map((id) => (
+                <option key={id} value={id}>
+                  {IMAGE_PRESETS[id].label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            Studio title
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Optional"
+              className="px-2 py-1 border border-slate-300 rounded-md focus:ring-violet-500 focus:border-violet-500"
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={showWeekLabel}
+              onChange={(e) => setShowWeekLabel(e.target.checked)}
+              className="rounded border-slate-300 text-violet-600 focus:ring-violet-500"
+            />
+            Show the week ({formatWeekRange(weekStart)})
+          </label>
+          <div className="flex gap-2">
+            <button onClick={downloadPng} disabled={isRendering} className={buttonClass}>
+              {isRendering ? "Rendering..." : "Download PNG"}
+            </button>
+            <button
+              onClick={() => downloadFile(svg, `${filename}.svg`, "image/svg+xml")}
+              className={buttonClass}
+            >
+              Download SVG
+            </button>
+          </div>
+          {error && <p className="text-red-500">{error}</p>}
+        </div>
+        <img
+          src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`}
+          alt="Preview of the export"
+          className="max-h-80 w-auto border border-slate-200 rounded-md"
+        />
+      </div>
+    </section>
+  );
+};
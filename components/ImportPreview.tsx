@@ -0,0 +1,230 @@
+import type React from "react";
+import type { EventField } from "../types";
+import type { ColumnType } from "../utils/columns";
+import { formatDateTimeLocal } from "../utils/dates";
+import {
+  type EventFields,
+  endsAfterStart,
+  isLongerThanTypical,
+  isOnWeekend,
+  suspiciousReasons,
+} from "../utils/validation";
+
+export interface PreviewRow {
+  rowIndex: number;
+  fields: EventFields;
+  selected: boolean;
+}
+
+export interface PreviewColumn {
+  field: EventField;
+  label: string;
+  // Source header and its detected value type, when the field is mapped
+  header?: string;
+  type?: ColumnType;
+}
+
+interface ImportPreviewProps {
+  rows: PreviewRow[];
+  columns: PreviewColumn[];
+  // Notes about what the source left out or was read differently
+  notices?: string[];
+  onRowChange: (rowIndex: number, patch: Partial<PreviewRow>) => void;
+  onSelectAll: (selected: boolean) => void;
+  onConfirm: () => void;
+  onBack: () => void;
+}
+
+const NUMBER_FIELDS = ["capacity", "total", "waiting", "price"] as const;
+
+const inputClass =
+  "w-full px-1.5 py-1 border rounded text-xs bg-white focus:ring-1 focus:ring-violet-500 focus:border-violet-500";
+
+export const ImportPreview: React.FC<ImportPreviewProps> = ({
+  rows,
+  columns,
+  notices = [],
+  onRowChange,
+  onSelectAll,
+  onConfirm,
+  onBack,
+}) => {
+  const selectedCount = rows.filter((r) => r.selected).length;
+  const flaggedCount = rows.filter((r) => suspiciousReasons(r.fields).length > 0).length;
+  // Selected rows that cannot be imported until their times are fixed
+  const invalidCount = rows.filter((r) => r.selected && !endsAfterStart(r.fields)).length;
+
+  const updateFields = (row: PreviewRow, patch: Partial<EventFields>) =>
+    onRowChange(row.rowIndex, { fields: { ...row.fields, ...patch } });
+
+  const updateDate = (row: PreviewRow, field: "start" | "end", value: string) => {
+    const date = new Date(value);
+    if (!Number.isNaN(date.getTime())) updateFields(row, { [field]: date });
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 text-slate-800 p-4 sm:p-8">
+      <div className="max-w-7xl mx-auto bg-white p-6 rounded-2xl shadow-lg border border-slate-200">
+        <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+          <div>
+            <h1 className="text-2xl font-bold text-slate-900">Review import</h1>
+            <p className="text-slate-500 text-sm mt-1">
+              {rows.length} events · {selectedCount} selected
+              {flaggedCount > 0 && (
+                <span className="text-amber-700"> · {flaggedCount} flagged for review</span>
+              )}
+            </p>
+          </div>
+          <div className="flex gap-2 text-sm">
+            <button
+              onClick={() => onSelectAll(true)}
+              className="text-violet-700 hover:text-violet-900 font-medium"
+            >
+              Select all
+            </button>
+            <button
+              onClick={() => onSelectAll(false)}
+              className="text-violet-700 hover:text-violet-900 font-medium"
+            >
+              Select none
+            </button>
+          </div>
+        </div>
+
+        {notices.length > 0 && (
+          <ul className="mb-4 rounded-lg border border-amber-200 bg-amber-50 px-4 py-2 text-sm text-amber-800">
+            {notices.map((notice) => (
+              <li key={notice}>{notice}</li>
+            ))}
+          </ul>
+        )}
+
+        <div className="overflow-auto max-h-[65vh] border border-slate-200 rounded-lg">
+          <table className="w-full text-xs">
+            <thead className="bg-slate-50 text-slate-600 text-left sticky top-0 z-10">
+              <tr>
+                <th className="px-2 py-2">
+                  <span className="sr-only">Import</span>
+                </th>
+                {columns.map((col) => (
+                  <th key={col.field} className="px-2 py-2 align-bottom">
+                    <span className="block font-semibold text-slate-700">{col.label}</span>
+                    <span className="block font-normal text-slate-400">
+                      {col.header ? `${col.header} · ${col.type}` : "not in file"}
+                    </span>
+                  </th>
+                ))}
+                <th className="px-2 py-2 font-semibold text-slate-700">Check</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => {
+                const reasons = suspiciousReasons(row.fields);
+                const { fields } = row;
+                const validTimes = endsAfterStart(fields);
+                const flag = (condition: boolean) =>
+                  condition ? "border-amber-400 bg-amber-50" : "border-slate-200";
+                const endClass = validTimes
+                  ? flag(isLongerThanTypical(fields))
+                  : "border-red-400 bg-red-50";
+                return (
+                  <tr
+                    key={row.rowIndex}
+                    className={`border-t border-slate-100 ${row.selected ? "" : "opacity-50"}`}
+                  >
+                    <td className="px-2 py-1">
+                      <input
+                        type="checkbox"
+                        checked={row.selected}
+                        onChange={(e) => onRowChange(row.rowIndex, { selected: e.target.checked })}
+                        aria-label={`Import row ${row.rowIndex + 2}`}
+                        className="rounded border-slate-300 text-violet-600 focus:ring-violet-500"
+                      />
+                    </td>
+                    {columns.map(({ field, label }) => {
+                      if (field === "start" || field === "end") {
+                        return (
+                          <td key={field} className="px-1 py-1 min-w-40">
+                            <input
+                              type="datetime-local"
+                              value={formatDateTimeLocal(fields[field])}
+                              onChange={(e) => updateDate(row, field, e.target.value)}
+                              aria-label={label}
+                              className={`${inputClass} ${
+                                field === "start" ? flag(isOnWeekend(fields.start)) : endClass
+                              }`}
+                            />
+                          </td>
+                        );
+                      }
+                      if ((NUMBER_FIELDS as readonly string[]).includes(field)) {
+                        const numberField = field as (typeof NUMBER_FIELDS)[number];
+                        return (
+                          <td key={field} className="px-1 py-1 w-20">
+                            <input
+                              type="number"
+                              min={0}
+                              step={numberField === "price" ? 0.01 : 1}
+                              value={fields[numberField]}
+                              onChange={(e) =>
+                                updateFields(row, { [numberField]: Number(e.target.value) || 0 })
+                              }
+                              aria-label={label}
+                              className={`${inputClass} ${flag(
+                                numberField === "capacity" && fields.capacity === 0
+                              )}`}
+                            />
+                          </td>
+                        );
+                      }
+                      const textField = field as "title" | "description";
+                      return (
+                        <td key={field} className="px-1 py-1 min-w-32">
+                          <input
+                            type="text"
+                            value={fields[textField]}
+                            onChange={(e) => updateFields(row, { [textField]: e.target.value })}
+                            aria-label={label}
+                            className={`${inputClass} ${flag(false)}`}
+                          />
+                        </td>
+                      );
+                    })}
+                    <td className="px-2 py-1 text-amber-700 whitespace-nowrap">
+                      {!validTimes && (
+                        <span className="text-red-600">End is not after start. </span>
+                      )}
+                      {reasons.join(", ")}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-end gap-2 mt-4">
+          {invalidCount > 0 && (
+            <p className="text-sm text-red-600 mr-auto">
+              Fix the times of {invalidCount} selected {invalidCount === 1 ? "event" : "events"}{" "}
+              (the end must be after the start) or leave {invalidCount === 1 ? "it" : "them"} out.
+            </p>
+          )}
+          <button
+            onClick={onBack}
+            className="bg-white text-slate-700 font-semibold py-2 px-4 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors shadow-sm"
+          >
+            Back
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={selectedCount === 0 || invalidCount > 0}
+            className="bg-violet-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-violet-700 transition-all duration-200 shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Import {selectedCount} {selectedCount === 1 ? "event" : "events"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
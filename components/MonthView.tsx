@@ -0,0 +1,70 @@
+import type React from "react";
+import { useMemo } from "react";
+import type { ScheduleEvent } from "../types";
+import { addDays, daysOfWeek, formatTime, startOfWeek } from "../utils/dates";
+
+interface MonthViewProps {
+  events: ScheduleEvent[];
+  // Any date within the month to show
+  month: Date;
+  onDaySelect: (day: Date) => void;
+}
+
+export const MonthView: React.FC<MonthViewProps> = ({ events, month, onDaySelect }) => {
+  // Whole weeks (Monday first) covering the month
+  const weeks = useMemo(() => {
+    const first = new Date(month.getFullYear(), month.getMonth(), 1);
+    const last = new Date(month.getFullYear(), month.getMonth() + 1, 0);
+    const result: Date[][] = [];
+    for (let week = startOfWeek(first); week <= last; week = addDays(week, 7)) {
+      result.push(Array.from({ length: 7 }, (_, i) => addDays(week, i)));
+    }
+    return result;
+  }, [month]);
+
+  // Multi-day events are listed on every day they cover
+  const eventsOn = (day: Date) =>
+    events
+      .filter((event) => event.start < addDays(day, 1) && event.end > day)
+      .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  return (
+    <div className="select-none">
+      <div className="grid grid-cols-7 border-b border-l border-slate-200">
+        {daysOfWeek.map((label) => (
+          <div key={label} className="text-center py-2 border-r border-slate-200">
+            <span className="font-semibold text-slate-700">{label}</span>
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-7 border-l border-slate-200">
+        {weeks.flat().map((day) => {
+          const inMonth = day.getMonth() === month.getMonth();
+          const dayEvents = eventsOn(day);
+          return (
+            <button
+              key={day.toISOString()}
+              onClick={() => onDaySelect(day)}
+              aria-label={`Show ${day.toLocaleDateString([], { dateStyle: "full" })}`}
+              className={`min-h-28 p-1 text-left align-top border-r border-b border-slate-200 hover:bg-slate-50 ${
+                inMonth ? "" : "bg-slate-50 text-slate-400"
+              }`}
+            >
+              <span className="block text-xs font-semibold mb-1">{day.getDate()}</span>
+              <span className="flex flex-col gap-0.5">
+                {dayEvents.map((event) => (
+                  <span
+                    key={event.id}
+                    className={`block truncate rounded px-1 text-[10px] leading-4 border ${event.color}`}
+                  >
+                    {formatTime(event.start)} {event.title}
+                  </span>
+                ))}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import type React from "react";
+
+interface RowsPreviewProps {
+  rows: string[][];
+  // Source label, e.g. "Pasted table" or "Pasted text"
+  source: string;
+  maxRows?: number;
+}
+
+export const RowsPreview: React.FC<RowsPreviewProps> = ({ rows, source, maxRows = 8 }) => {
+  if (rows.length === 0) return null;
+  const [header, ...dataRows] = rows;
+  const shown = dataRows.slice(0, maxRows);
+  const width = Math.max(...rows.map((row) => row.length));
+  const columns = Array.from({ length: width }, (_, i) => i);
+
+  return (
+    <div className="mt-3">
+      <p className="text-xs text-slate-500 mb-1">
+        {source}: {width} columns, {dataRows.length} data {dataRows.length === 1 ? "row" : "rows"}
+        {dataRows.length > shown.length && ` (showing first ${shown.length})`}
+      </p>
+      <div className="max-h-64 overflow-auto border border-slate-200 rounded-md">
+        <table className="w-full text-xs">
+          <thead className="bg-slate-50 text-slate-700 sticky top-0">
+            <tr>
+              {columns.map((col) => (
+                <th key={col} className="px-2 py-1 text-left font-semibold whitespace-nowrap">
+                  {header[col] ?? ""}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {shown.map((row, r) => (
+              // biome-ignore lint/suspicious/noArrayIndexKey: preview rows have no identity beyond position
+              <tr key={r} className="border-t border-slate-100 align-top">
+                {columns.map((col) => (
+                  <td key={col} className="px-2 py-1 text-slate-600 whitespace-pre-line">
+                    {row[col] ?? ""}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -1,33 +1,60 @@
 import type React from "react";
-import { useCallback, useEffect, useId, useMemo, useState } from "react";
-import type { ScheduleEvent } from "../types";
-
-const HOUR_HEIGHT = 60; // pixels per hour for visible sections
-// Default bounds (used only as fallback when no events are present)
-const CALENDAR_START_HOUR = 6;
-const CALENDAR_END_HOUR = 23;
-// Gap collapse configuration
-const GAP_MARKER_HEIGHT = 16; // pixels height for the collapsed gap marker
-const MIN_COLLAPSIBLE_GAP_MINUTES = 60; // collapse only gaps >= 60 minutes
-const daysOfWeek = ["Lun", "Mar", "Mié", "Jue", "Vie", "Sáb", "Dom"];
+import { useCallback, useEffect, useId, useMemo, useRef, useState } from "react";
+import type { LayoutSettings, ScheduleEvent } from "../types";
+import {
+  addDays,
+  daysOfWeek,
+  formatDateTimeLocal,
+  formatMinutes,
+  formatTime,
+  isSameDay,
+  startOfDay,
+} from "../utils/dates";
+import { DEFAULT_LAYOUT_SETTINGS } from "../utils/settings";
+import {
+  buildTimeline,
+  type DayPiece,
+  layoutDay,
+  minutesToY,
+  piecePosition,
+  rulerMarks,
+  snapToStep,
+  splitIntoDays,
+  visibleWeekDays,
+  yToMinutes,
+} from "../utils/timeline";
+
+const RULER_LABEL_HEIGHT = 14; // pixels, keeps hour labels inside the grid at its edges
+const DRAG_THRESHOLD = 4; // pixels a pointer must travel before a press becomes a drag
+const NEW_EVENT_MINUTES = 60; // length of an event created with a single click
 
 // --- Helper Functions ---
 
-const formatTime = (date: Date): string => {
-  return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", hour12: false });
+// "4/10 booked · 2 waiting · 12.00" summary for the detailed day cards
+export const formatBooking = (event: ScheduleEvent): string => {
+  const parts = [`${event.total}/${event.capacity} booked`];
+  if (event.waiting > 0) parts.push(`${event.waiting} waiting`);
+  if (event.price > 0) parts.push(event.price.toFixed(2));
+  return parts.join(" · ");
 };
 
-// YYYY-MM-DDTHH:mm format for datetime-local input
-const formatDateTimeLocal = (date: Date): string => {
-  const pad = (num: number) => num.toString().padStart(2, "0");
-  const year = date.getFullYear();
-  const month = pad(date.getMonth() + 1);
-  const day = pad(date.getDate());
-  const hours = pad(date.getHours());
-  const minutes = pad(date.getMinutes());
-  return `${year}-${month}-${day}T${hours}:${minutes}`;
+const weekdayLabel = (date: Date) => daysOfWeek[(date.getDay() + 6) % 7];
+
+// "08:30 - 09:30", with weekdays when the event ends on another day
+const formatSpan = (event: ScheduleEvent): string =>
+  isSameDay(event.start, event.end)
+    ? `${formatTime(event.start)} - ${formatTime(event.end)}`
+    : `${weekdayLabel(event.start)} ${formatTime(event.start)} - ${weekdayLabel(event.end)} ${formatTime(event.end)}`;
+
+// Midnight of the day plus the given minutes (1440 is the next midnight)
+const atMinutes = (day: Date, minutes: number): Date => {
+  const date = new Date(day);
+  date.setMinutes(minutes);
+  return date;
 };
 
+const shiftMinutes = (date: Date, minutes: number) => new Date(date.getTime() + minutes * 60000);
+
 // --- EventModal Component ---
 
 interface EventModalProps {
@@ -210,9 +237,38 @@ const EventModal: React.FC<EventModalProps> = ({ eventData, onClose, onSave, onD
 
 // --- Schedule Component ---
 
+type DragMode = "move" | "resize";
+
+// Pointer drag in progress; dayIndex/startMin/endMin are where the ghost currently is
+interface DragState {
+  piece: DayPiece;
+  mode: DragMode;
+  originX: number;
+  originY: number;
+  moved: boolean;
+  dayIndex: number;
+  startMin: number;
+  endMin: number;
+}
+
+// Drag over an empty slot to create an event; anchorMin is the slot first pressed
+interface CreateState {
+  dayIndex: number;
+  originY: number;
+  moved: boolean;
+  anchorMin: number;
+  startMin: number;
+  endMin: number;
+}
+
 interface ScheduleProps {
   events: ScheduleEvent[];
   weekStart: Date;
+  // Show only this day, with wider cards including description and booking data
+  day?: Date;
+  settings?: LayoutSettings;
+  // Shared links: events can be viewed but not opened, moved or created
+  readOnly?: boolean;
   onEventUpdate: (updatedEvent: ScheduleEvent) => void;
   onEventDelete: (eventId: string) => void;
   onEventCreate: (newEvent: ScheduleEvent) => void;
@@ -221,224 +277,264 @@ interface ScheduleProps {
 export const Schedule: React.FC<ScheduleProps> = ({
   events,
   weekStart,
+  day,
+  settings = DEFAULT_LAYOUT_SETTINGS,
+  readOnly = false,
   onEventUpdate,
   onEventDelete,
   onEventCreate,
 }) => {
   const [modalEvent, setModalEvent] = useState<ScheduleEvent | Partial<ScheduleEvent> | null>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [creating, setCreating] = useState<CreateState | null>(null);
+  // Collapsed gaps the user opened up to add classes in them, by start minute
+  const [expandedGaps, setExpandedGaps] = useState<ReadonlySet<number>>(new Set());
+  const dayColumnsRef = useRef<HTMLDivElement>(null);
+  // A drag ends with a click on the card, which must not open the modal
+  const suppressClickRef = useRef(false);
+  // Card to focus again after a keyboard move re-renders it (possibly in another day)
+  const refocusIdRef = useRef<string | null>(null);
+  const { hourHeight, gridInterval, snapMinutes } = settings;
 
   const days = useMemo(() => {
+    if (day) return [startOfDay(day)];
     const d = new Date(weekStart);
     return Array.from({ length: 7 }, (_, i) => {
-      const day = new Date(d);
-      day.setDate(d.getDate() + i);
-      return day;
+      const date = new Date(d);
+      date.setDate(d.getDate() + i);
+      return date;
     });
-  }, [weekStart]);
+  }, [weekStart, day]);
+
+  // Events split into per-day pieces, so overnight and multi-day events appear on
+  // every day they cover and count towards the visible window of each
+  const pieces = useMemo(() => splitIntoDays(events, days), [events, days]);
+  const timeline = useMemo(
+    () => buildTimeline(pieces, settings, expandedGaps),
+    [pieces, settings, expandedGaps]
+  );
+  const { segments, totalHeight } = timeline;
 
-  // Minutes of day helper
-  const minutesOfDay = useCallback((date: Date) => date.getHours() * 60 + date.getMinutes(), []);
+  const mapMinToY = useCallback((absMin: number) => minutesToY(timeline, absMin), [timeline]);
 
-  // Compute global visible window (crop fully empty top/bottom hours across the entire week)
-  const { visibleStartMin, visibleEndMin } = useMemo(() => {
-    if (events.length === 0) {
-      return {
-        visibleStartMin: CALENDAR_START_HOUR * 60,
-        visibleEndMin: CALENDAR_END_HOUR * 60,
-      };
-    }
-
-    let minStart = Infinity;
-    let maxEnd = -Infinity;
-    for (const e of events) {
-      const s = minutesOfDay(e.start);
-      const en = minutesOfDay(e.end);
-      if (s < minStart) minStart = s;
-      if (en > maxEnd) maxEnd = en;
-    }
-    // Round to hour for tidy grid
-    minStart = Math.max(0, Math.floor(minStart / 60) * 60);
-    maxEnd = Math.min(24 * 60, Math.ceil(maxEnd / 60) * 60);
-    return { visibleStartMin: minStart, visibleEndMin: maxEnd };
-  }, [events, minutesOfDay]);
-
-  // Build union of time intervals where at least one event exists across any day
-  const unionIntervals = useMemo(() => {
-    const intervals: Array<{ start: number; end: number }> = [];
-    for (const e of events) {
-      const start = Math.max(visibleStartMin, minutesOfDay(e.start));
-      const end = Math.min(visibleEndMin, minutesOfDay(e.end));
-      if (end > start) intervals.push({ start, end });
-    }
-    intervals.sort((a, b) => a.start - b.start);
-    // Merge
-    const merged: Array<{ start: number; end: number }> = [];
-    for (const iv of intervals) {
-      if (merged.length === 0 || iv.start > merged[merged.length - 1].end) {
-        merged.push({ ...iv });
-      } else {
-        merged[merged.length - 1].end = Math.max(merged[merged.length - 1].end, iv.end);
-      }
-    }
-    return merged;
-  }, [events, visibleStartMin, visibleEndMin, minutesOfDay]);
-
-  // Create vertical timeline segments: visible stretches and collapsed gaps
-  type Segment = { type: "visible" | "gap"; start: number; end: number; height: number };
-  const segments = useMemo<Segment[]>(() => {
-    const segs: Segment[] = [];
-    if (visibleEndMin <= visibleStartMin) return segs;
-
-    if (unionIntervals.length === 0) {
-      // No events within window – show a single visible block (fallback)
-      segs.push({
-        type: "visible",
-        start: visibleStartMin,
-        end: visibleEndMin,
-        height: ((visibleEndMin - visibleStartMin) / 60) * HOUR_HEIGHT,
-      });
-      return segs;
-    }
+  // Hour labels for the time axis, at their position on the grid
+  const rulerLabels = useMemo(
+    () => rulerMarks(timeline).map((minutes) => ({ minutes, y: mapMinToY(minutes) })),
+    [timeline, mapMinToY]
+  );
 
-    // Build gaps between merged intervals, ignoring outer gaps (they are cropped already)
-    const intervals: Array<{ start: number; end: number }> = unionIntervals.slice();
-    // Visible segment before first interval is already cropped out
-    for (let i = 0; i < intervals.length; i++) {
-      const cur = intervals[i];
-      // Add visible segment for current interval
-      segs.push({
-        type: "visible",
-        start: cur.start,
-        end: cur.end,
-        height: ((cur.end - cur.start) / 60) * HOUR_HEIGHT,
-      });
+  // Side-by-side placement of concurrent classes, computed per overlapping cluster
+  const piecesByDay = useMemo(
+    () => days.map((_, i) => layoutDay(pieces.filter((piece) => piece.dayIndex === i))),
+    [pieces, days]
+  );
 
-      const next = intervals[i + 1];
-      if (!next) break;
-      const gapStart = cur.end;
-      const gapEnd = next.start;
-      const gapMinutes = gapEnd - gapStart;
-      if (gapMinutes > 0) {
-        if (gapMinutes >= MIN_COLLAPSIBLE_GAP_MINUTES) {
-          segs.push({ type: "gap", start: gapStart, end: gapEnd, height: GAP_MARKER_HEIGHT });
-        } else {
-          // Small gap – keep as visible space to avoid excessive markers
-          segs.push({
-            type: "visible",
-            start: gapStart,
-            end: gapEnd,
-            height: (gapMinutes / 60) * HOUR_HEIGHT,
-          });
-        }
-      }
-    }
-    return segs;
-  }, [unionIntervals, visibleStartMin, visibleEndMin]);
-
-  const totalHeight = useMemo(() => segments.reduce((acc, s) => acc + s.height, 0), [segments]);
-
-  // Map absolute minutes-of-day to Y position considering collapsed gaps
-  const mapMinToY = useCallback(
-    (absMin: number) => {
-      // Clamp into cropped window
-      const clamped = Math.max(visibleStartMin, Math.min(absMin, visibleEndMin));
-      let y = 0;
-      for (const seg of segments) {
-        if (clamped < seg.start) break;
-        if (clamped >= seg.end) {
-          y += seg.height;
-        } else {
-          if (seg.type === "visible") {
-            y += ((clamped - seg.start) / 60) * HOUR_HEIGHT;
-          } else {
-            // Inside a collapsed gap: place at the gap start position
-            // (this situation should not occur for events since gaps have no events)
-            y += 0;
-          }
-          break;
-        }
-      }
-      return y;
-    },
-    [segments, visibleStartMin, visibleEndMin]
+  // Determine which weekend days to show: hide empty Saturday/Sunday unless always shown
+  const visibleDayIndices = useMemo(
+    () => (day ? [0] : visibleWeekDays(pieces, settings.alwaysShowWeekend)),
+    [pieces, day, settings.alwaysShowWeekend]
   );
 
-  const getEventPosition = useCallback(
-    (event: ScheduleEvent) => {
-      const startMin = minutesOfDay(event.start);
-      const endMin = minutesOfDay(event.end);
-      const top = mapMinToY(startMin);
-      const mappedEnd = mapMinToY(endMin);
-      const height = Math.max(mappedEnd - top, 20); // enforce a minimum height
+  // Runs once the pieces are rebuilt, so focus lands on the card at its new place
+  useEffect(() => {
+    const id = refocusIdRef.current;
+    if (!id) return;
+    refocusIdRef.current = null;
+    dayColumnsRef.current
+      ?.querySelector<HTMLElement>(`[data-event-id="${CSS.escape(id)}"]`)
+      ?.focus();
+  }, [pieces]);
+
+  // --- Drag to move / resize ---
+
+  const startDrag = (e: React.PointerEvent<HTMLElement>, piece: DayPiece, mode: DragMode) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    suppressClickRef.current = false;
+    setDrag({
+      piece,
+      mode,
+      originX: e.clientX,
+      originY: e.clientY,
+      moved: false,
+      dayIndex: piece.dayIndex,
+      startMin: piece.startMin,
+      endMin: piece.endMin,
+    });
+  };
 
-      let dayIndex = event.start.getDay() - 1;
-      if (dayIndex === -1) dayIndex = 6;
+  // Visible day column under the pointer
+  const dayIndexAt = (clientX: number, fallback: number) => {
+    const rect = dayColumnsRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return fallback;
+    const columnWidth = rect.width / visibleDayIndices.length;
+    const column = Math.floor((clientX - rect.left) / columnWidth);
+    return visibleDayIndices[Math.max(0, Math.min(visibleDayIndices.length - 1, column))];
+  };
 
-      return { top, height, dayIndex };
-    },
-    [mapMinToY, minutesOfDay]
-  );
+  const handleDragMove = (e: React.PointerEvent<HTMLElement>) => {
+    if (!drag) return;
+    const dx = e.clientX - drag.originX;
+    const dy = e.clientY - drag.originY;
+    if (!drag.moved && Math.abs(dx) < DRAG_THRESHOLD && Math.abs(dy) < DRAG_THRESHOLD) return;
+    const { piece } = drag;
+
+    if (drag.mode === "resize") {
+      const bottom = minutesToY(timeline, piece.endMin) + dy;
+      const endMin = snapToStep(yToMinutes(timeline, bottom), snapMinutes);
+      setDrag({
+        ...drag,
+        moved: true,
+        endMin: Math.min(24 * 60, Math.max(piece.startMin + snapMinutes, endMin)),
+      });
+      return;
+    }
 
-  const eventsByDay = useMemo(() => {
-    const grouped: { [key: number]: ScheduleEvent[] } = {};
-    for (let i = 0; i < 7; i++) grouped[i] = [];
+    const length = piece.endMin - piece.startMin;
+    const top = minutesToY(timeline, piece.startMin) + dy;
+    const startMin = Math.min(
+      24 * 60 - length,
+      Math.max(0, snapToStep(yToMinutes(timeline, top), snapMinutes))
+    );
+    setDrag({
+      ...drag,
+      moved: true,
+      dayIndex: dayIndexAt(e.clientX, piece.dayIndex),
+      startMin,
+      endMin: startMin + length,
+    });
+  };
 
-    events.forEach((event) => {
-      const { dayIndex } = getEventPosition(event);
-      if (grouped[dayIndex]) {
-        grouped[dayIndex].push(event);
-      }
+  const handleDragEnd = () => {
+    if (!drag) return;
+    setDrag(null);
+    if (!drag.moved) return;
+    suppressClickRef.current = true;
+    const { piece } = drag;
+    const { event } = piece;
+
+    if (drag.mode === "resize") {
+      const end = atMinutes(days[piece.dayIndex], drag.endMin);
+      if (end > event.start) onEventUpdate({ ...event, end });
+      return;
+    }
+
+    // Shift the whole event by how far this piece moved, so multi-day events keep their length
+    const from = atMinutes(days[piece.dayIndex], piece.startMin);
+    const to = atMinutes(days[drag.dayIndex], drag.startMin);
+    const delta = to.getTime() - from.getTime();
+    if (delta === 0) return;
+    onEventUpdate({
+      ...event,
+      start: new Date(event.start.getTime() + delta),
+      end: new Date(event.end.getTime() + delta),
     });
+  };
 
-    // Simple overlap handling: sort by start time and assign horizontal positions
-    Object.values(grouped).forEach((dayEvents) => {
-      dayEvents.sort((a, b) => a.start.getTime() - b.start.getTime());
-      const columns: ScheduleEvent[][] = [];
-      dayEvents.forEach((event) => {
-        let placed = false;
-        for (const col of columns) {
-          if (col[col.length - 1].end.getTime() <= event.start.getTime()) {
-            col.push(event);
-            placed = true;
-            break;
-          }
-        }
-        if (!placed) {
-          columns.push([event]);
-        }
-      });
+  // Keyboard equivalents: arrows move by the snap step or a day, Shift+Up/Down resizes
+  const handleCardKeyDown = (e: React.KeyboardEvent, event: ScheduleEvent) => {
+    if (e.key === "Enter" || e.key === " ") {
+      e.preventDefault();
+      setModalEvent(event);
+      return;
+    }
+    const minutes = e.key === "ArrowUp" ? -snapMinutes : e.key === "ArrowDown" ? snapMinutes : 0;
+    const dayShift = e.key === "ArrowLeft" ? -1 : e.key === "ArrowRight" ? 1 : 0;
+    let updated: ScheduleEvent | null = null;
+    if (minutes && e.shiftKey) {
+      const end = shiftMinutes(event.end, minutes);
+      if (end > event.start) updated = { ...event, end };
+    } else if (minutes) {
+      updated = {
+        ...event,
+        start: shiftMinutes(event.start, minutes),
+        end: shiftMinutes(event.end, minutes),
+      };
+    } else if (dayShift) {
+      updated = {
+        ...event,
+        start: addDays(event.start, dayShift),
+        end: addDays(event.end, dayShift),
+      };
+    }
+    if (!updated) return;
+    e.preventDefault();
+    refocusIdRef.current = event.id;
+    onEventUpdate(updated);
+  };
 
-      const totalCols = columns.length;
-      columns.forEach((col, colIndex) => {
-        col.forEach((event) => {
-          event.colIndex = colIndex;
-          event.totalCols = totalCols;
-        });
-      });
+  // --- Click or drag on an empty slot to create ---
+
+  // Minutes of day under the pointer, within the day column the event came from
+  const minutesAt = (e: React.PointerEvent<HTMLElement>) =>
+    yToMinutes(timeline, e.clientY - e.currentTarget.getBoundingClientRect().top);
+
+  const startCreate = (e: React.PointerEvent<HTMLElement>, dayIndex: number) => {
+    // Only presses on the column itself, not on the cards inside it
+    if (e.button !== 0 || e.target !== e.currentTarget) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const anchorMin = Math.min(
+      24 * 60 - snapMinutes,
+      Math.floor(minutesAt(e) / snapMinutes) * snapMinutes
+    );
+    setCreating({
+      dayIndex,
+      originY: e.clientY,
+      moved: false,
+      anchorMin,
+      startMin: anchorMin,
+      endMin: anchorMin + snapMinutes,
+    });
+  };
+
+  const handleCreateMove = (e: React.PointerEvent<HTMLElement>) => {
+    if (!creating) return;
+    if (!creating.moved && Math.abs(e.clientY - creating.originY) < DRAG_THRESHOLD) return;
+    const minutes = snapToStep(minutesAt(e), snapMinutes);
+    setCreating({
+      ...creating,
+      moved: true,
+      startMin: Math.min(creating.anchorMin, minutes),
+      endMin: Math.max(creating.anchorMin + snapMinutes, minutes),
     });
+  };
 
-    return grouped;
-  }, [events, getEventPosition]);
+  const handleCreateEnd = () => {
+    if (!creating) return;
+    setCreating(null);
+    const { dayIndex, startMin } = creating;
+    // A plain click creates an hour-long event starting at the clicked slot
+    const endMin = creating.moved
+      ? creating.endMin
+      : Math.min(24 * 60, startMin + NEW_EVENT_MINUTES);
+    setModalEvent({
+      title: "",
+      description: "",
+      start: atMinutes(days[dayIndex], startMin),
+      end: atMinutes(days[dayIndex], endMin),
+      capacity: 0,
+      total: 0,
+      waiting: 0,
+      price: 0,
+    });
+  };
 
-  // Determine which weekend days to show: hide empty Saturday/Sunday
-  const visibleDayIndices = useMemo(() => {
-    const indices = [0, 1, 2, 3, 4]; // Always show Mon-Fri
-    if ((eventsByDay[5] || []).length > 0) indices.push(5); // Saturday if has events
-    if ((eventsByDay[6] || []).length > 0) indices.push(6); // Sunday if has events
-    return indices;
-  }, [eventsByDay]);
+  const expandGap = (start: number) => setExpandedGaps((prev) => new Set(prev).add(start));
 
-  // Creation/editing interactions disabled for print-only display
+  // Where a dragged or newly drawn event will land
+  const preview = drag?.moved ? drag : creating?.moved ? creating : null;
 
   const handleModalClose = () => {
     setModalEvent(null);
   };
 
   const handleModalSave = (eventToSave: ScheduleEvent) => {
-    if ("id" in eventToSave && eventToSave.id && !eventToSave.id.startsWith("new-")) {
+    // Events opened from the grid already exist; anything else was drawn on an empty slot
+    if (events.some((event) => event.id === eventToSave.id)) {
       onEventUpdate(eventToSave);
     } else {
-      onEventCreate({ ...eventToSave, id: `new-${Date.now()}` });
+      onEventCreate({ ...eventToSave, id: crypto.randomUUID() });
     }
     handleModalClose();
   };
@@ -451,23 +547,66 @@ export const Schedule: React.FC<ScheduleProps> = ({
   return (
     <div className="flex flex-col select-none">
       {/* Header */}
-      <div
-        className="grid sticky top-0 bg-white z-10 border-b border-l border-slate-200"
-        style={{ gridTemplateColumns: `repeat(${visibleDayIndices.length}, minmax(0, 1fr))` }}
-      >
-        {visibleDayIndices.map((dayIdx) => (
-          <div
-            key={days[dayIdx].toISOString()}
-            className="flex-1 text-center py-2 border-r border-slate-200"
-          >
-            <span className="font-semibold text-slate-700">{daysOfWeek[dayIdx]}</span>
-          </div>
-        ))}
+      <div className="flex sticky top-0 bg-white z-10">
+        <div className="w-16 shrink-0 border-b border-slate-200" />
+        <div
+          className="grid flex-grow border-b border-l border-slate-200"
+          style={{ gridTemplateColumns: `repeat(${visibleDayIndices.length}, minmax(0, 1fr))` }}
+        >
+          {visibleDayIndices.map((dayIdx) => (
+            <div
+              key={days[dayIdx].toISOString()}
+              className="flex-1 text-center py-2 border-r border-slate-200"
+            >
+              <span className="font-semibold text-slate-700">{weekdayLabel(days[dayIdx])}</span>
+            </div>
+          ))}
+        </div>
       </div>
 
       {/* Body */}
       <div className="flex flex-grow overflow-auto">
+        {/* Time axis, aligned with the collapsed-gap mapping */}
+        <div
+          className="relative w-16 shrink-0 text-[11px] text-slate-500"
+          style={{ height: `${totalHeight}px` }}
+        >
+          {rulerLabels.map(({ minutes, y }) => (
+            <span
+              key={minutes}
+              className="absolute right-2 tabular-nums"
+              style={{
+                top: `${Math.min(Math.max(0, y - RULER_LABEL_HEIGHT / 2), totalHeight - RULER_LABEL_HEIGHT)}px`,
+                lineHeight: `${RULER_LABEL_HEIGHT}px`,
+              }}
+            >
+              {formatMinutes(minutes)}
+            </span>
+          ))}
+          {segments
+            .filter((seg) => seg.type === "gap")
+            .map((seg) => (
+              // The gap's range label doubles as the control that expands it
+              <button
+                key={`gap-${seg.start}`}
+                type="button"
+                onClick={() => expandGap(seg.start)}
+                disabled={readOnly}
+                className="absolute right-1 text-[10px] text-slate-400 tabular-nums whitespace-nowrap enabled:hover:text-violet-700 enabled:hover:underline"
+                style={{
+                  top: `${mapMinToY(seg.start)}px`,
+                  height: `${seg.height}px`,
+                  lineHeight: `${seg.height}px`,
+                }}
+                title="Expand this gap to add classes in it"
+                aria-label={`Expand the gap from ${formatMinutes(seg.start)} to ${formatMinutes(seg.end)}`}
+              >
+                {formatMinutes(seg.start)}–{formatMinutes(seg.end)}
+              </button>
+            ))}
+        </div>
         <div
+          ref={dayColumnsRef}
           className="grid flex-grow relative border-l border-slate-200"
           style={{
             gridTemplateColumns: `repeat(${visibleDayIndices.length}, minmax(0, 1fr))`,
@@ -483,6 +622,7 @@ export const Schedule: React.FC<ScheduleProps> = ({
                     key={`gap-${seg.start}-${seg.end}`}
                     style={{ height: `${seg.height}px` }}
                     className="flex items-center"
+                    title={`No classes ${formatMinutes(seg.start)}–${formatMinutes(seg.end)}`}
                   >
                     <div className="w-full border-t border-dashed border-slate-300 relative">
                       <span className="absolute left-1/2 -translate-x-1/2 -top-2 text-slate-400 text-xs tracking-widest">
@@ -493,18 +633,26 @@ export const Schedule: React.FC<ScheduleProps> = ({
                 );
               }
 
-              // Visible time segment: draw hour separators within this segment
+              // Visible time segment: draw hour (and finer) separators within this segment
               const rows: React.ReactNode[] = [];
               let p = seg.start;
               while (p < seg.end) {
-                const nextBoundary = Math.min(seg.end, Math.floor(p / 60) * 60 + 60);
+                const nextBoundary = Math.min(
+                  seg.end,
+                  Math.floor(p / gridInterval) * gridInterval + gridInterval
+                );
                 const blockMin = Math.max(0, nextBoundary - p);
-                const h = (blockMin / 60) * HOUR_HEIGHT;
+                const h = (blockMin / 60) * hourHeight;
+                const isHourLine = nextBoundary % 60 === 0 || nextBoundary === seg.end;
                 rows.push(
                   <div
                     key={`row-${seg.start}-${p}`}
                     style={{ height: `${h}px` }}
-                    className="border-b border-slate-200"
+                    className={
+                      isHourLine
+                        ? "border-b border-slate-200"
+                        : "border-b border-dashed border-slate-100"
+                    }
                   />
                 );
                 p = nextBoundary;
@@ -531,38 +679,104 @@ export const Schedule: React.FC<ScheduleProps> = ({
 
           {/* Day columns */}
           {visibleDayIndices.map((dayIndex) => (
-            <div key={days[dayIndex].toISOString()} className="relative border-r border-slate-200">
+            <div
+              key={days[dayIndex].toISOString()}
+              className={`relative border-r border-slate-200 ${readOnly ? "" : "cursor-cell touch-none"}`}
+              {...(readOnly
+                ? {}
+                : {
+                    onPointerDown: (e: React.PointerEvent<HTMLElement>) => startCreate(e, dayIndex),
+                    onPointerMove: handleCreateMove,
+                    onPointerUp: handleCreateEnd,
+                    onPointerCancel: () => setCreating(null),
+                  })}
+            >
               {/* Events for this day */}
-              {(eventsByDay[dayIndex] || []).map((event) => {
-                const { top, height } = getEventPosition(event);
-                const colIndex = event.colIndex || 0;
-                const totalCols = event.totalCols || 1;
-                const width = `${100 / totalCols}%`;
-                const left = `${colIndex * (100 / totalCols)}%`;
+              {(piecesByDay[dayIndex] || []).map((layout) => {
+                const { piece } = layout;
+                const { event } = piece;
+                const { top, height } = piecePosition(timeline, piece);
+                const width = `${layout.width * 100}%`;
+                const left = `${layout.left * 100}%`;
+                // Pieces of a longer event join the previous/next day with a flat edge
+                const rounding = `${piece.continuesBefore ? "rounded-t-none" : ""} ${
+                  piece.continuesAfter ? "rounded-b-none" : ""
+                }`;
+
+                const isDragged = drag?.moved && drag.piece.event.id === event.id;
+                const editProps = readOnly
+                  ? {}
+                  : {
+                      onClick: () => {
+                        if (suppressClickRef.current) {
+                          suppressClickRef.current = false;
+                          return;
+                        }
+                        setModalEvent(event);
+                      },
+                      onPointerDown: (e: React.PointerEvent<HTMLElement>) =>
+                        startDrag(e, piece, "move"),
+                      onPointerMove: handleDragMove,
+                      onPointerUp: handleDragEnd,
+                      onPointerCancel: () => setDrag(null),
+                      onKeyDown: (e: React.KeyboardEvent) => handleCardKeyDown(e, event),
+                      role: "button",
+                      tabIndex: 0,
+                      "aria-label": `Edit ${event.title} event, ${formatSpan(event)}`,
+                      "aria-keyshortcuts":
+                        "ArrowUp ArrowDown ArrowLeft ArrowRight Shift+ArrowUp Shift+ArrowDown",
+                      title:
+                        "Drag or use the arrow keys to move, Shift+Up/Down to change the end time",
+                    };
 
                 return (
                   <div
-                    key={event.id}
+                    key={`${event.id}-${piece.dayIndex}`}
+                    data-event-id={event.id}
                     style={{ top: `${top}px`, height: `${height}px`, width, left }}
-                    className={`absolute p-2 rounded-lg border text-xs overflow-hidden cursor-pointer transition-shadow hover:shadow-lg ${event.color}`}
-                    onClick={() => setModalEvent(event)}
-                    onKeyDown={(e) => {
-                      if (e.key === "Enter" || e.key === " ") {
-                        e.preventDefault();
-                        setModalEvent(event);
-                      }
-                    }}
-                    role="button"
-                    tabIndex={0}
-                    aria-label={`Edit ${event.title} event`}
+                    className={`absolute p-2 rounded-lg ${rounding} border text-xs overflow-hidden ${
+                      readOnly ? "" : "cursor-pointer touch-none transition-shadow hover:shadow-lg"
+                    } ${event.color} ${isDragged ? "opacity-40" : ""}`}
+                    {...editProps}
                   >
+                    {piece.continuesBefore && <p className="text-[10px] opacity-80">↑ continued</p>}
                     <p className="font-bold truncate">{event.title}</p>
-                    <p className="text-opacity-80">
-                      {formatTime(event.start)} - {formatTime(event.end)}
-                    </p>
+                    <p className="text-opacity-80">{formatSpan(event)}</p>
+                    {day && (
+                      <>
+                        {event.description && (
+                          <p className="mt-1 whitespace-pre-line line-clamp-3">
+                            {event.description}
+                          </p>
+                        )}
+                        <p className="mt-1 opacity-90">{formatBooking(event)}</p>
+                      </>
+                    )}
+                    {piece.continuesAfter ? (
+                      <p className="absolute bottom-1 left-2 text-[10px] opacity-80">↓ continues</p>
+                    ) : readOnly ? null : (
+                      // Resize handle along the bottom edge
+                      <div
+                        className="absolute inset-x-0 bottom-0 h-2 cursor-ns-resize print:hidden"
+                        onPointerDown={(e) => startDrag(e, piece, "resize")}
+                        aria-hidden="true"
+                      />
+                    )}
                   </div>
                 );
               })}
+              {preview?.dayIndex === dayIndex && (
+                // Ghost preview of where the dragged or new event will land
+                <div
+                  className="absolute inset-x-0 z-20 rounded-lg border-2 border-dashed border-violet-500 bg-violet-100/60 pointer-events-none px-2 py-1 text-xs font-semibold text-violet-800"
+                  style={{
+                    top: `${mapMinToY(preview.startMin)}px`,
+                    height: `${Math.max(mapMinToY(preview.endMin) - mapMinToY(preview.startMin), 20)}px`,
+                  }}
+                >
+                  {formatMinutes(preview.startMin)} - {formatMinutes(preview.endMin % (24 * 60))}
+                </div>
+              )}
             </div>
           ))}
         </div>
@@ -0,0 +1,132 @@
+import type React from "react";
+import { useState } from "react";
+import type { ScheduleSummary } from "../utils/storage";
+
+interface ScheduleLibraryProps {
+  schedules: ScheduleSummary[];
+  // The schedule currently open, if any
+  currentId: string | null;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onNew: () => void;
+  onBack?: () => void;
+}
+
+const linkClass = "text-violet-700 hover:text-violet-900 font-medium";
+
+export const ScheduleLibrary: React.FC<ScheduleLibraryProps> = ({
+  schedules,
+  currentId,
+  onOpen,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onNew,
+  onBack,
+}) => {
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (renaming?.name.trim()) onRename(renaming.id, renaming.name.trim());
+    setRenaming(null);
+  };
+
+  const handleDelete = (schedule: ScheduleSummary) => {
+    if (window.confirm(`Delete “${schedule.name}”? This cannot be undone.`)) {
+      onDelete(schedule.id);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 text-slate-800 p-4 sm:p-8">
+      <div className="max-w-3xl mx-auto bg-white p-6 rounded-2xl shadow-lg border border-slate-200">
+        <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+          <div>
+            <h1 className="text-2xl font-bold text-slate-900">Saved schedules</h1>
+            <p className="text-slate-500 text-sm mt-1">
+              Schedules are saved in this browser as you edit them.
+            </p>
+          </div>
+          <div className="flex gap-4 text-sm">
+            <button onClick={onNew} className={linkClass}>
+              New schedule
+            </button>
+            {onBack && (
+              <button onClick={onBack} className="text-slate-500 hover:text-slate-700 font-medium">
+                Back to schedule
+              </button>
+            )}
+          </div>
+        </div>
+
+        {schedules.length === 0 ? (
+          <p className="text-slate-500 text-sm py-8 text-center">No saved schedules yet.</p>
+        ) : (
+          <ul className="divide-y divide-slate-100 border-y border-slate-100">
+            {schedules.map((schedule) => {
+              const isCurrent = schedule.id === currentId;
+              return (
+                <li key={schedule.id} className="flex flex-wrap items-center gap-3 py-3 text-sm">
+                  <div className="min-w-0 flex-1">
+                    {renaming?.id === schedule.id ? (
+                      <form onSubmit={handleRename} className="flex gap-2">
+                        <input
+                          type="text"
+                          value={renaming.name}
+                          onChange={(e) => setRenaming({ ...renaming, name: e.target.value })}
+                          onKeyDown={(e) => e.key === "Escape" && setRenaming(null)}
+                          aria-label="Schedule name"
+                          className="flex-1 px-2 py-1 border border-slate-300 rounded-md focus:ring-violet-500 focus:border-violet-500"
+                        />
+                        <button type="submit" className={linkClass}>
+                          Save
+                        </button>
+                      </form>
+                    ) : (
+                      <button
+                        onClick={() => onOpen(schedule.id)}
+                        className="text-left font-semibold text-slate-900 hover:text-violet-700 truncate max-w-full"
+                      >
+                        {schedule.name}
+                        {isCurrent && (
+                          <span className="ml-2 text-xs font-normal text-violet-700">(open)</span>
+                        )}
+                      </button>
+                    )}
+                    <p className="text-xs text-slate-500">
+                      {schedule.eventCount} {schedule.eventCount === 1 ? "event" : "events"} · saved{" "}
+                      {new Date(schedule.updatedAt).toLocaleString([], {
+                        dateStyle: "medium",
+                        timeStyle: "short",
+                      })}
+                    </p>
+                  </div>
+                  <div className="flex gap-3">
+                    <button
+                      onClick={() => setRenaming({ id: schedule.id, name: schedule.name })}
+                      className={linkClass}
+                    >
+                      Rename
+                    </button>
+                    <button onClick={() => onDuplicate(schedule.id)} className={linkClass}>
+                      Duplicate
+                    </button>
+                    <button
+                      onClick={() => handleDelete(schedule)}
+                      className="text-red-600 hover:text-red-800 font-medium"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
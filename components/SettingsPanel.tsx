@@ -0,0 +1,181 @@
+import type React from "react";
+import type { GridInterval, LayoutSettings } from "../types";
+import { DEFAULT_LAYOUT_SETTINGS, sanitizeLayoutSettings } from "../utils/settings";
+
+interface SettingsPanelProps {
+  settings: LayoutSettings;
+  onChange: (settings: LayoutSettings) => void;
+  onClose: () => void;
+}
+
+const HOURS = Array.from({ length: 25 }, (_, h) => h);
+const GAP_THRESHOLDS = [30, 60, 90, 120, 180];
+
+const selectClass = "px-2 py-1 border border-slate-300 rounded-md bg-white";
+const checkboxClass = "rounded border-slate-300 text-violet-600 focus:ring-violet-500";
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, onClose }) => {
+  const update = (patch: Partial<LayoutSettings>) =>
+    onChange(sanitizeLayoutSettings({ ...settings, ...patch }));
+
+  return (
+    <section
+      aria-label="Layout settings"
+      className="mb-4 border border-slate-200 bg-white rounded-lg p-4 shadow-sm text-sm text-slate-600"
+    >
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="font-semibold text-slate-800">Layout settings</h2>
+        <div className="flex gap-3">
+          <button
+            onClick={() => onChange(DEFAULT_LAYOUT_SETTINGS)}
+            className="text-violet-700 hover:text-violet-900 font-medium"
+          >
+            Reset
+          </button>
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-700 font-medium">
+            Close
+          </button>
+        </div>
+      </div>
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+        <fieldset className="space-y-2">
+          <legend className="font-medium text-slate-700 mb-1">Hours</legend>
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              name="hour-range"
+              checked={settings.hourRange === "auto"}
+              onChange={() => update({ hourRange: "auto" })}
+              className="text-violet-600 focus:ring-violet-500"
+            />
+            Crop to the hours with classes
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              name="hour-range"
+              checked={settings.hourRange === "fixed"}
+              onChange={() => update({ hourRange: "fixed" })}
+              className="text-violet-600 focus:ring-violet-500"
+            />
+            Always show
+            <select
+              value={settings.startHour}
+              onChange={(e) => update({ startHour: Number(e.target.value) })}
+              aria-label="First hour"
+              className={selectClass}
+            >
+              {HOURS.slice(0, 24).map((h) => (
+                <option key={h} value={h}>
+                  {h}:00
+                </option>
+              ))}
+            </select>
+            –
+            <select
+              value={settings.endHour}
+              onChange={(e) => update({ endHour: Number(e.target.value) })}
+              aria-label="Last hour"
+              className={selectClass}
+            >
+              {HOURS.filter((h) => h > settings.startHour).map((h) => (
+                <option key={h} value={h}>
+                  {h}:00
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            Hour height
+            <input
+              type="range"
+              min={20}
+              max={240}
+              step={10}
+              value={settings.hourHeight}
+              onChange={(e) => update({ hourHeight: Number(e.target.value) })}
+            />
+            <span className="tabular-nums">{settings.hourHeight}px</span>
+          </label>
+        </fieldset>
+
+        <fieldset className="space-y-2">
+          <legend className="font-medium text-slate-700 mb-1">Gaps</legend>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={!settings.collapseGaps}
+              onChange={(e) => update({ collapseGaps: !e.target.checked })}
+              className={checkboxClass}
+            />
+            Never collapse gaps
+          </label>
+          <label className="flex items-center gap-2">
+            Collapse gaps of at least
+            <select
+              value={settings.minCollapsibleGapMinutes}
+              onChange={(e) => update({ minCollapsibleGapMinutes: Number(e.target.value) })}
+              disabled={!settings.collapseGaps}
+              className={selectClass}
+            >
+              {GAP_THRESHOLDS.map((minutes) => (
+                <option key={minutes} value={minutes}>
+                  {minutes} min
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            Gap marker height
+            <input
+              type="range"
+              min={8}
+              max={60}
+              step={2}
+              value={settings.gapMarkerHeight}
+              onChange={(e) => update({ gapMarkerHeight: Number(e.target.value) })}
+              disabled={!settings.collapseGaps}
+            />
+            <span className="tabular-nums">{settings.gapMarkerHeight}px</span>
+          </label>
+        </fieldset>
+
+        <fieldset className="space-y-2">
+          <legend className="font-medium text-slate-700 mb-1">Grid</legend>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={settings.alwaysShowWeekend}
+              onChange={(e) => update({ alwaysShowWeekend: e.target.checked })}
+              className={checkboxClass}
+            />
+            Always show Saturday and Sunday
+          </label>
+          <label className="flex items-center gap-2">
+            Grid lines
+            <select
+              value={settings.gridInterval}
+              onChange={(e) => update({ gridInterval: Number(e.target.value) as GridInterval })}
+              className={selectClass}
+            >
+              <option value={60}>Hourly</option>
+              <option value={30}>Every 30 min</option>
+              <option value={15}>Every 15 min</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            Snap moved classes to
+            <select
+              value={settings.snapMinutes}
+              onChange={(e) => update({ snapMinutes: Number(e.target.value) === 5 ? 5 : 15 })}
+              className={selectClass}
+            >
+              <option value={5}>5 min</option>
+              <option value={15}>15 min</option>
+            </select>
+          </label>
+        </fieldset>
+      </div>
+    </section>
+  );
+};
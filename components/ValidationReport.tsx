@@ -0,0 +1,120 @@
+import type React from "react";
+import { issueColumns, type RowResult } from "../utils/validation";
+
+// A row listed for review and the cells offered for fixing
+export interface ReviewRow {
+  rowIndex: number;
+  columns: number[];
+}
+
+interface ValidationReportProps {
+  headers: string[];
+  dataRows: string[][];
+  results: RowResult[];
+  // Fixed when the review opens, so a row does not vanish while it is being edited
+  reviewRows: ReviewRow[];
+  onCellChange: (rowIndex: number, columnIndex: number, value: string) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export const ValidationReport: React.FC<ValidationReportProps> = ({
+  headers,
+  dataRows,
+  results,
+  reviewRows,
+  onCellChange,
+  onConfirm,
+  onCancel,
+}) => {
+  const invalid = results.filter((r) => r.issues.length > 0);
+  const validCount = results.length - invalid.length;
+
+  return (
+    <div className="mb-6 border border-red-200 bg-red-50 rounded-lg p-4">
+      <h2 className="font-semibold text-slate-800">
+        {invalid.length > 0
+          ? `${invalid.length} of ${results.length} rows have problems`
+          : "All problems are fixed"}
+      </h2>
+      <p className="text-sm text-slate-600 mt-1 mb-4">
+        Fix the highlighted cells below, or import the {validCount} valid rows and skip the rest.
+      </p>
+      <div className="max-h-80 overflow-auto bg-white border border-slate-200 rounded-md">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 text-slate-600 text-left sticky top-0">
+            <tr>
+              <th className="px-3 py-2 font-medium">Row</th>
+              <th className="px-3 py-2 font-medium">Problems</th>
+              <th className="px-3 py-2 font-medium">Fix</th>
+            </tr>
+          </thead>
+          <tbody>
+            {reviewRows.map((reviewRow) => {
+              const { rowIndex } = reviewRow;
+              const row = dataRows[rowIndex];
+              const issues = results[rowIndex]?.issues ?? [];
+              const fixed = issues.length === 0;
+              // Fixing one cell can reveal a problem in another
+              const columns = [...new Set([...reviewRow.columns, ...issueColumns(issues)])].sort(
+                (a, b) => a - b
+              );
+              return (
+                <tr key={rowIndex} className="border-t border-slate-100 align-top">
+                  <td className="px-3 py-2 text-slate-500">{rowIndex + 2}</td>
+                  <td className="px-3 py-2">
+                    {fixed && <p className="text-green-700">Fixed</p>}
+                    <ul className="space-y-1">
+                      {issues.map((issue) => (
+                        <li key={`${issue.column}-${issue.message}`} className="text-red-700">
+                          {issue.column !== undefined && (
+                            <span className="text-slate-500">Col {issue.column}: </span>
+                          )}
+                          {issue.message}
+                        </li>
+                      ))}
+                    </ul>
+                  </td>
+                  <td className="px-3 py-2 space-y-1">
+                    {columns.map((columnIndex) => (
+                      <label key={columnIndex} className="flex items-center gap-2">
+                        <span className="text-xs text-slate-500 w-24 truncate">
+                          {headers[columnIndex]}
+                        </span>
+                        <input
+                          type="text"
+                          value={row[columnIndex] ?? ""}
+                          onChange={(e) => onCellChange(rowIndex, columnIndex, e.target.value)}
+                          className={`flex-1 px-2 py-1 border rounded-md font-mono text-xs ${
+                            issues.some((issue) => issue.column === columnIndex + 1)
+                              ? "border-red-300"
+                              : "border-slate-300"
+                          }`}
+                        />
+                      </label>
+                    ))}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex justify-end gap-2 mt-4">
+        <button
+          onClick={onCancel}
+          className="bg-white text-slate-700 font-semibold py-2 px-4 border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors shadow-sm"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={onConfirm}
+          disabled={validCount === 0}
+          className="bg-violet-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-violet-700 transition-all duration-200 shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Import {validCount} valid {validCount === 1 ? "row" : "rows"}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -9,6 +9,48 @@ export interface ScheduleEvent {
   waiting: number;
   price: number;
   color: string;
-  colIndex?: number;
-  totalCols?: number;
+}
+
+// Event fields that an import column can be mapped to
+export type EventField =
+  | "start"
+  | "end"
+  | "startDate"
+  | "endDate"
+  | "title"
+  | "description"
+  | "capacity"
+  | "total"
+  | "waiting"
+  | "price";
+
+// Column index for each mapped field (unmapped fields are absent)
+export type ColumnMapping = Partial<Record<EventField, number>>;
+
+// Order of day and month in numeric dates (year-first dates are always unambiguous)
+export type DateOrder = "dmy" | "mdy";
+export type DateFormatSetting = "auto" | DateOrder;
+
+// Calendar layouts the schedule can be shown in
+export type ScheduleView = "week" | "month" | "day" | "agenda";
+
+// Minutes between grid lines in the week and day grids
+export type GridInterval = 15 | 30 | 60;
+
+// Week/day grid layout preferences, persisted per browser
+export interface LayoutSettings {
+  hourHeight: number; // pixels per hour for visible sections
+  // "auto" crops the grid to the hours with events; "fixed" always shows startHour–endHour,
+  // widened to any events outside it
+  hourRange: "auto" | "fixed";
+  startHour: number;
+  endHour: number;
+  collapseGaps: boolean;
+  gapMarkerHeight: number; // pixels height for a collapsed gap marker
+  minCollapsibleGapMinutes: number;
+  // Show Saturday and Sunday even when they have no events
+  alwaysShowWeekend: boolean;
+  gridInterval: GridInterval;
+  // Minutes that dragged or keyboard-moved events snap to
+  snapMinutes: 5 | 15;
 }
@@ -0,0 +1,159 @@
+import type { ColumnMapping, EventField } from "../types";
+import { classifyDateTime } from "./dates";
+
+export const EVENT_FIELDS: Array<{ field: EventField; label: string; required: boolean }> = [
+  { field: "start", label: "Start", required: true },
+  { field: "end", label: "End", required: true },
+  { field: "startDate", label: "Start date", required: false },
+  { field: "endDate", label: "End date", required: false },
+  { field: "title", label: "Title", required: true },
+  { field: "description", label: "Description", required: false },
+  { field: "capacity", label: "Capacity", required: false },
+  { field: "total", label: "Booked", required: false },
+  { field: "waiting", label: "Waiting", required: false },
+  { field: "price", label: "Price", required: false },
+];
+
+// Known header names per field (Spanish and English), already normalized
+const FIELD_SYNONYMS: Record<EventField, string[]> = {
+  start: [
+    "hora de inicio",
+    "hora inicio",
+    "inicio",
+    "comienzo",
+    "desde",
+    "start",
+    "start time",
+    "starts",
+    "begin",
+    "from",
+  ],
+  end: [
+    "hora de finalizacion",
+    "hora de fin",
+    "hora fin",
+    "fin",
+    "finalizacion",
+    "hasta",
+    "end",
+    "end time",
+    "ends",
+    "finish",
+    "to",
+  ],
+  startDate: ["fecha", "fecha de inicio", "fecha inicio", "date", "start date"],
+  endDate: ["fecha de fin", "fecha fin", "fecha de finalizacion", "end date"],
+  title: ["titulo", "clase", "nombre", "actividad", "evento", "title", "class", "name", "activity"],
+  description: ["descripcion", "detalles", "notas", "description", "details", "notes"],
+  capacity: ["capacidad", "plazas", "aforo", "capacity", "spots", "slots"],
+  total: ["total", "reservas", "inscritos", "booked", "bookings", "attendees"],
+  waiting: ["esperando", "en espera", "lista de espera", "waiting", "waitlist", "wait list"],
+  price: ["precio", "importe", "coste", "price", "cost", "fee"],
+};
+
+const MAPPING_STORAGE_KEY = "schedule-beautifier:column-mapping";
+
+// Lowercase, strip accents and collapse punctuation so "Título " matches "titulo"
+export const normalizeHeader = (header: string): string =>
+  header
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+const containsWords = (header: string, synonym: string): boolean =>
+  ` ${header} `.includes(` ${synonym} `);
+
+// Header names remembered from the last manually confirmed mapping
+const loadRememberedMapping = (): Partial<Record<EventField, string>> => {
+  try {
+    const stored = localStorage.getItem(MAPPING_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+};
+
+export const rememberMapping = (headers: string[], mapping: ColumnMapping) => {
+  const byName: Partial<Record<EventField, string>> = {};
+  for (const { field } of EVENT_FIELDS) {
+    const index = mapping[field];
+    if (index !== undefined && headers[index] !== undefined) {
+      byName[field] = normalizeHeader(headers[index]);
+    }
+  }
+  try {
+    localStorage.setItem(MAPPING_STORAGE_KEY, JSON.stringify(byName));
+  } catch {
+    // Storage unavailable (private mode, quota) – mapping just won't be remembered
+  }
+};
+
+// Match header cells to event fields: remembered names first, then exact
+// synonyms, then headers that contain a synonym as whole words
+export const resolveColumnMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+
+  const assign = (field: EventField, index: number) => {
+    if (index === -1 || used.has(index) || mapping[field] !== undefined) return;
+    mapping[field] = index;
+    used.add(index);
+  };
+
+  const remembered = loadRememberedMapping();
+  for (const { field } of EVENT_FIELDS) {
+    const name = remembered[field];
+    if (name) assign(field, normalized.indexOf(name));
+  }
+
+  for (const { field } of EVENT_FIELDS) {
+    for (const synonym of FIELD_SYNONYMS[field]) {
+      assign(
+        field,
+        normalized.findIndex((h, i) => !used.has(i) && h === synonym)
+      );
+    }
+  }
+
+  for (const { field } of EVENT_FIELDS) {
+    for (const synonym of FIELD_SYNONYMS[field]) {
+      assign(
+        field,
+        normalized.findIndex((h, i) => !used.has(i) && containsWords(h, synonym))
+      );
+    }
+  }
+
+  return mapping;
+};
+
+export const cellValue = (columns: string[], mapping: ColumnMapping, field: EventField): string => {
+  const index = mapping[field];
+  return index === undefined ? "" : (columns[index] ?? "");
+};
+
+export type ColumnType = "date & time" | "date" | "time" | "number" | "text" | "empty";
+
+// Predominant kind of value in a column, shown next to each mapped field
+export const detectColumnType = (values: string[]): ColumnType => {
+  const filled = values.map((v) => v.trim()).filter(Boolean);
+  if (filled.length === 0) return "empty";
+  const counts = new Map<ColumnType, number>();
+  for (const value of filled) {
+    const kind = classifyDateTime(value);
+    const type: ColumnType =
+      kind === "datetime"
+        ? "date & time"
+        : (kind ?? (/^[€$£]?\s*-?\d+([.,]\d+)?\s*[€$£]?$/.test(value) ? "number" : "text"));
+    counts.set(type, (counts.get(type) ?? 0) + 1);
+  }
+  return [...counts.entries()].reduce((a, b) => (b[1] > a[1] ? b : a))[0];
+};
+
+export const missingRequiredFields = (mapping: ColumnMapping): EventField[] =>
+  EVENT_FIELDS.filter(({ field, required }) => required && mapping[field] === undefined).map(
+    ({ field }) => field
+  );
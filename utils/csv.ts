@@ -0,0 +1,210 @@
+import type { ScheduleEvent } from "../types";
+
+export type Delimiter = "," | ";" | "\t" | "|";
+
+const DELIMITERS: Delimiter[] = [",", ";", "\t", "|"];
+// Records sampled when sniffing the delimiter
+const SNIFF_SAMPLE_RECORDS = 20;
+
+// Decode raw file bytes: honour a BOM, otherwise try UTF-8 and fall back to
+// Windows-1252, the encoding of legacy Spanish-locale Excel exports
+export const decodeText = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return new TextDecoder("utf-8").decode(bytes.subarray(3));
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return new TextDecoder("utf-16le").decode(bytes.subarray(2));
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return new TextDecoder("utf-16be").decode(bytes.subarray(2));
+  }
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder("windows-1252").decode(bytes);
+  }
+};
+
+// Strip a leading BOM and normalize Windows/old Mac line endings to \n
+export const normalizeText = (text: string): string =>
+  text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+
+// Count delimiter candidates outside quotes for the first records of the text
+const countDelimiters = (text: string): Array<Record<Delimiter, number>> => {
+  const records: Array<Record<Delimiter, number>> = [];
+  let counts: Record<Delimiter, number> = { ",": 0, ";": 0, "\t": 0, "|": 0 };
+  let insideQuotes = false;
+  let hasContent = false;
+
+  for (let i = 0; i < text.length && records.length < SNIFF_SAMPLE_RECORDS; i++) {
+    const char = text[i];
+    if (char === '"') {
+      insideQuotes = !insideQuotes;
+    } else if (char === "\n" && !insideQuotes) {
+      if (hasContent) records.push(counts);
+      counts = { ",": 0, ";": 0, "\t": 0, "|": 0 };
+      hasContent = false;
+      continue;
+    } else if (!insideQuotes && DELIMITERS.includes(char as Delimiter)) {
+      counts[char as Delimiter]++;
+    }
+    if (char.trim()) hasContent = true;
+  }
+  if (hasContent && records.length < SNIFF_SAMPLE_RECORDS) records.push(counts);
+  return records;
+};
+
+// Pick the delimiter that splits the sampled records most consistently: the
+// share of records with the header's field count wins, then the field count
+export const sniffDelimiter = (text: string): Delimiter => {
+  const records = countDelimiters(text);
+  if (records.length === 0) return ",";
+
+  let best: Delimiter = ",";
+  let bestScore = -1;
+  for (const delimiter of DELIMITERS) {
+    const headerCount = records[0][delimiter];
+    if (headerCount === 0) continue;
+    const consistent = records.filter((r) => r[delimiter] === headerCount).length;
+    const score = (consistent / records.length) * 1000 + headerCount;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+// Parse delimited text of unknown dialect: honours an Excel "sep=;" line,
+// otherwise sniffs the delimiter from the first records
+export const parseDelimited = (rawText: string): string[][] => {
+  let text = normalizeText(rawText);
+  let delimiter: Delimiter;
+  const directive = /^sep=(.)\n/i.exec(text);
+  if (directive && DELIMITERS.includes(directive[1] as Delimiter)) {
+    delimiter = directive[1] as Delimiter;
+    text = text.slice(directive[0].length);
+  } else {
+    delimiter = sniffDelimiter(text);
+  }
+  if (delimiter === "\t") {
+    // Tab-separated text (e.g. pasted from a spreadsheet) does not quote fields, so
+    // quotes are kept as typed, such as 12" in a description
+    return text
+      .split("\n")
+      .map((line) => line.split("\t").map((field) => field.trim()))
+      .filter((row) => row.some((field) => field.length > 0));
+  }
+  return parseCSV(text, delimiter);
+};
+
+// CSV parser utility that handles quoted fields properly
+export const parseCSV = (text: string, delimiter: Delimiter = ","): string[][] => {
+  const result: string[][] = [];
+  const lines = text.split("\n");
+  let currentRow: string[] = [];
+  let currentField = "";
+  let insideQuotes = false;
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    let charIndex = 0;
+
+    while (charIndex < line.length) {
+      const char = line[charIndex];
+
+      if (char === '"') {
+        if (insideQuotes && line[charIndex + 1] === '"') {
+          // Escaped quote
+          currentField += '"';
+          charIndex += 2;
+        } else {
+          // Toggle quote state
+          insideQuotes = !insideQuotes;
+          charIndex++;
+        }
+      } else if (char === delimiter && !insideQuotes) {
+        // Field separator
+        currentRow.push(currentField.trim());
+        currentField = "";
+        charIndex++;
+      } else {
+        currentField += char;
+        charIndex++;
+      }
+    }
+
+    if (!insideQuotes) {
+      // End of row
+      currentRow.push(currentField.trim());
+      if (currentRow.some((field) => field.length > 0)) {
+        result.push(currentRow);
+      }
+      currentRow = [];
+      currentField = "";
+    } else {
+      // Continue to next line (multi-line field)
+      currentField += "\n";
+    }
+
+    i++;
+  }
+
+  // Handle last row if not completed
+  if (currentRow.length > 0 || currentField.length > 0) {
+    currentRow.push(currentField.trim());
+    result.push(currentRow);
+  }
+
+  return result;
+};
+
+// Header of the booking system's export, which the importer recognizes as-is
+export const CSV_HEADER = [
+  "Hora de inicio",
+  "Hora de finalización",
+  "Título",
+  "Descripción",
+  "Capacidad",
+  "Total",
+  "Esperando",
+  "Precio",
+];
+
+// Files in the booking system's layout, including this app's CSV export, always write
+// dates as D/M, so they are read that way without asking
+export const hasBookingHeader = (header: string[]): boolean =>
+  header.length === CSV_HEADER.length &&
+  header.every((cell, i) => cell.trim().toLowerCase() === CSV_HEADER[i].toLowerCase());
+
+// D/M/YYYY H:mm, the booking system's own date format
+const formatBookingDate = (date: Date): string =>
+  `${date.getDate()}/${date.getMonth() + 1}/${date.getFullYear()} ${date.getHours()}:${date
+    .getMinutes()
+    .toString()
+    .padStart(2, "0")}`;
+
+// Quote fields that contain delimiters, quotes, line breaks or edge whitespace
+const quoteField = (value: string): string =>
+  /[",\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Serialize events back to the 8-column booking format accepted by the importer.
+// A UTF-8 BOM lets Excel open the accents correctly.
+export const serializeCSV = (events: ScheduleEvent[]): string => {
+  const rows = [...events]
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .map((e) => [
+      formatBookingDate(e.start),
+      formatBookingDate(e.end),
+      e.title,
+      e.description,
+      String(e.capacity),
+      String(e.total),
+      String(e.waiting),
+      e.price.toFixed(2),
+    ]);
+  const lines = [CSV_HEADER, ...rows].map((row) => row.map(quoteField).join(","));
+  return `\uFEFF${lines.join("\r\n")}\r\n`;
+};
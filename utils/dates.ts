@@ -0,0 +1,175 @@
+import type { DateOrder } from "../types";
+
+interface DateTimeParts {
+  // Raw numeric date components in the order they appear in the text
+  date?: [number, number, number];
+  yearFirst: boolean;
+  time?: { hour: number; minute: number; second: number };
+}
+
+// Date part: 8/9/2025, 08-09-2025, 8.9.25 or 2025-09-08
+const DATE_PART = "(\\d{1,4})[/.-](\\d{1,2})[/.-](\\d{1,4})";
+// Time part: 8:30, 08:30:15, 8:30 PM, 8:30p.m.
+const TIME_PART = "(\\d{1,2}):(\\d{2})(?::(\\d{2}))?(?:\\.\\d+)?\\s*([ap])?\\.?\\s*(?:m\\.?)?";
+const DATE_TIME_PATTERN = new RegExp(`^(?:${DATE_PART})?(?:[\\sT,]+)?(?:${TIME_PART})?$`, "i");
+// ISO 8601 with an explicit UTC offset is an absolute instant
+const ISO_WITH_OFFSET =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})$/i;
+
+const splitDateTime = (value: string): DateTimeParts | null => {
+  const match = DATE_TIME_PATTERN.exec(value.trim());
+  if (!match) return null;
+  const [, a, b, c, hour, minute, second, meridiem] = match;
+  if (!a && !hour) return null;
+
+  const parts: DateTimeParts = { yearFirst: !!a && a.length === 4 };
+  if (a) parts.date = [parseInt(a, 10), parseInt(b, 10), parseInt(c, 10)];
+  if (hour) {
+    let h = parseInt(hour, 10);
+    if (meridiem) {
+      if (h < 1 || h > 12) return null;
+      const isPm = meridiem.toLowerCase() === "p";
+      if (h === 12) h = isPm ? 12 : 0;
+      else if (isPm) h += 12;
+    }
+    parts.time = {
+      hour: h,
+      minute: parseInt(minute, 10),
+      second: second ? parseInt(second, 10) : 0,
+    };
+  }
+  return parts;
+};
+
+// Kind of value a date/time cell holds, or null when it is not a date/time
+export const classifyDateTime = (value: string): "datetime" | "date" | "time" | null => {
+  const trimmed = value.trim();
+  if (ISO_WITH_OFFSET.test(trimmed)) return "datetime";
+  const parts = splitDateTime(trimmed);
+  if (!parts) return null;
+  if (parts.date && parts.time) return "datetime";
+  return parts.date ? "date" : "time";
+};
+
+export interface DateOrderDetection {
+  order: DateOrder;
+  // True when every date fits both D/M and M/D, so the order is a guess
+  ambiguous: boolean;
+  // A value that reads differently under D/M and M/D, for the warning message
+  example?: string;
+}
+
+// Decide between D/M/YYYY and M/D/YYYY by looking at every date in the file:
+// a first component above 12 proves D/M, a second component above 12 proves M/D
+export const detectDateOrder = (values: string[]): DateOrderDetection => {
+  let dayFirstVotes = 0;
+  let monthFirstVotes = 0;
+  let example: string | undefined;
+
+  for (const value of values) {
+    const parts = splitDateTime(value);
+    if (!parts?.date || parts.yearFirst) continue;
+    const [first, second] = parts.date;
+    if (first > 12 && second <= 12) dayFirstVotes++;
+    else if (second > 12 && first <= 12) monthFirstVotes++;
+    else if (first !== second && !example) example = value.trim();
+  }
+
+  if (dayFirstVotes === 0 && monthFirstVotes === 0) {
+    // Default to the booking system's own D/M format
+    return { order: "dmy", ambiguous: example !== undefined, example };
+  }
+  return { order: monthFirstVotes > dayFirstVotes ? "mdy" : "dmy", ambiguous: false };
+};
+
+// Parse a date/time cell. When the cell only holds a time, the date is taken
+// from `dateValue` (a separate date column).
+export const parseDateTime = (value: string, order: DateOrder, dateValue = ""): Date | null => {
+  const trimmed = value.trim();
+  if (ISO_WITH_OFFSET.test(trimmed)) {
+    const instant = new Date(trimmed);
+    return Number.isNaN(instant.getTime()) ? null : instant;
+  }
+
+  const parts = splitDateTime(trimmed);
+  if (!parts) return null;
+  const dateParts = parts.date ? parts : splitDateTime(dateValue);
+  if (!dateParts?.date) return null;
+
+  const [a, b, c] = dateParts.date;
+  let year: number;
+  let month: number;
+  let day: number;
+  if (dateParts.yearFirst) {
+    [year, month, day] = [a, b, c];
+  } else if (order === "mdy") {
+    [month, day, year] = [a, b, c];
+  } else {
+    [day, month, year] = [a, b, c];
+  }
+  if (year < 100) year += 2000;
+
+  const { hour, minute, second } = parts.time ?? { hour: 0, minute: 0, second: 0 };
+  if (hour > 23 || minute > 59 || second > 59) return null;
+
+  const result = new Date(year, month - 1, day, hour, minute, second);
+  // Reject rollovers such as 31/2 becoming 3 March
+  if (result.getMonth() !== month - 1 || result.getDate() !== day) return null;
+  return result;
+};
+
+// 24-hour "08:30" in the browser locale
+export const formatTime = (date: Date): string => {
+  return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", hour12: false });
+};
+
+// Minutes of day as "08:30"
+export const formatMinutes = (minutes: number): string => {
+  const pad = (num: number) => num.toString().padStart(2, "0");
+  return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+};
+
+// YYYY-MM-DDTHH:mm format for datetime-local input
+export const formatDateTimeLocal = (date: Date): string => {
+  const pad = (num: number) => num.toString().padStart(2, "0");
+  const year = date.getFullYear();
+  const month = pad(date.getMonth() + 1);
+  const day = pad(date.getDate());
+  const hours = pad(date.getHours());
+  const minutes = pad(date.getMinutes());
+  return `${year}-${month}-${day}T${hours}:${minutes}`;
+};
+
+export const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+export const startOfDay = (date: Date): Date => {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  return result;
+};
+
+export const isSameDay = (a: Date, b: Date): boolean =>
+  a.getFullYear() === b.getFullYear() &&
+  a.getMonth() === b.getMonth() &&
+  a.getDate() === b.getDate();
+
+// Weekday labels of the grid, Monday first
+export const daysOfWeek = ["Lun", "Mar", "Mié", "Jue", "Vie", "Sáb", "Dom"];
+
+// Monday 00:00 of the week containing the date
+export const startOfWeek = (date: Date): Date => {
+  const dayOfWeek = date.getDay(); // Sunday is 0, Monday is 1
+  return startOfDay(addDays(date, dayOfWeek === 0 ? -6 : 1 - dayOfWeek));
+};
+
+// "8 sept – 14 sept 2025" style label for a Monday-to-Sunday week
+export const formatWeekRange = (weekStart: Date): string => {
+  const weekEnd = addDays(weekStart, 6);
+  const start = weekStart.toLocaleDateString([], { day: "numeric", month: "short" });
+  const end = weekEnd.toLocaleDateString([], { day: "numeric", month: "short", year: "numeric" });
+  return `${start} – ${end}`;
+};
@@ -0,0 +1,61 @@
+import type { ScheduleEvent } from "../types";
+import { formatTime } from "./dates";
+
+// One state of the schedule and the change that led to it
+export interface HistoryStep {
+  label: string;
+  events: ScheduleEvent[];
+}
+
+// steps[index] is the current state; steps after it can be redone
+export interface EventHistory {
+  steps: HistoryStep[];
+  index: number;
+}
+
+const MAX_HISTORY_STEPS = 100;
+
+export const startHistory = (events: ScheduleEvent[]): EventHistory => ({
+  steps: [{ label: "Start", events }],
+  index: 0,
+});
+
+export const currentEvents = (history: EventHistory): ScheduleEvent[] =>
+  history.steps[history.index].events;
+
+// Events are never mutated, so an unchanged list holds the same objects
+const sameEvents = (a: ScheduleEvent[], b: ScheduleEvent[]) =>
+  a.length === b.length && a.every((event, i) => event === b[i]);
+
+// Record a change, dropping any steps that were undone before it. The oldest
+// steps are forgotten once the history is full.
+export const recordStep = (
+  history: EventHistory,
+  label: string,
+  events: ScheduleEvent[]
+): EventHistory => {
+  if (sameEvents(currentEvents(history), events)) return history;
+  const steps = [...history.steps.slice(0, history.index + 1), { label, events }].slice(
+    -MAX_HISTORY_STEPS
+  );
+  return { steps, index: steps.length - 1 };
+};
+
+export const jumpTo = (history: EventHistory, index: number): EventHistory =>
+  index >= 0 && index < history.steps.length ? { ...history, index } : history;
+
+const formatWhen = (date: Date) =>
+  `${date.toLocaleDateString([], { weekday: "short" })} ${formatTime(date)}`;
+
+// "Moved “Yoga” to Tue 09:00", "Changed the end of “Yoga” to 10:30", "Edited “Yoga”"
+export const describeEdit = (before: ScheduleEvent, after: ScheduleEvent): string => {
+  const name = `“${after.title}”`;
+  const startMoved = before.start.getTime() !== after.start.getTime();
+  const endMoved = before.end.getTime() !== after.end.getTime();
+  const sameLength =
+    before.end.getTime() - before.start.getTime() === after.end.getTime() - after.start.getTime();
+  if (startMoved && sameLength) return `Moved ${name} to ${formatWhen(after.start)}`;
+  if (endMoved && !startMoved) return `Changed the end of ${name} to ${formatTime(after.end)}`;
+  if (startMoved || endMoved) return `Changed the times of ${name}`;
+  return `Edited ${name}`;
+};
@@ -0,0 +1,77 @@
+// Convert an HTML table from the clipboard (Google Sheets, Excel, web pages)
+// into rows for the regular import pipeline
+import { type CellRange, foldMergedHeader } from "./mergedHeader";
+
+const BLOCK_ELEMENTS = new Set(["P", "DIV", "LI", "TR", "H1", "H2", "H3", "H4", "H5", "H6"]);
+
+// Cell text with HTML whitespace collapsed, keeping <br> and block breaks as newlines
+const cellText = (cell: Element): string => {
+  let text = "";
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      text += (node.textContent ?? "").replace(/\s+/g, " ");
+      return;
+    }
+    if (!(node instanceof Element)) return;
+    if (node.tagName === "BR") {
+      text += "\n";
+      return;
+    }
+    const isBlock = BLOCK_ELEMENTS.has(node.tagName);
+    if (isBlock && text && !text.endsWith("\n")) text += "\n";
+    node.childNodes.forEach(walk);
+    if (isBlock && text && !text.endsWith("\n")) text += "\n";
+  };
+  cell.childNodes.forEach(walk);
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .join("\n")
+    .trim();
+};
+
+// Rows of a table itself, not of tables nested inside its cells
+const tableRows = (table: Element): Element[] =>
+  Array.from(
+    table.querySelectorAll(
+      ":scope > tr, :scope > thead > tr, :scope > tbody > tr, :scope > tfoot > tr"
+    )
+  );
+
+const span = (cell: Element, attribute: "rowspan" | "colspan"): number =>
+  Math.max(1, parseInt(cell.getAttribute(attribute) ?? "1", 10) || 1);
+
+// Parse the largest table in an HTML fragment. Cells spanning several rows or
+// columns are copied into every position they cover. Returns null without a table.
+export const parseHtmlTable = (html: string): string[][] | null => {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  const tables = Array.from(doc.querySelectorAll("table"));
+  if (tables.length === 0) return null;
+  const table = tables.map(tableRows).reduce((a, b) => (b.length > a.length ? b : a));
+
+  const grid: string[][] = [];
+  const merges: CellRange[] = [];
+  table.forEach((tr, r) => {
+    grid[r] = grid[r] ?? [];
+    let c = 0;
+    for (const cell of Array.from(tr.querySelectorAll(":scope > td, :scope > th"))) {
+      // Skip positions already filled by a rowspan from above
+      while (grid[r][c] !== undefined) c++;
+      const value = cellText(cell);
+      const rowSpan = span(cell, "rowspan");
+      const colSpan = span(cell, "colspan");
+      for (let dr = 0; dr < rowSpan; dr++) {
+        grid[r + dr] = grid[r + dr] ?? [];
+        for (let dc = 0; dc < colSpan; dc++) grid[r + dr][c + dc] = value;
+      }
+      if (rowSpan > 1 || colSpan > 1) {
+        merges.push({ top: r, left: c, bottom: r + rowSpan - 1, right: c + colSpan - 1 });
+      }
+      c += colSpan;
+    }
+  });
+
+  const rows = grid.slice(0, table.length).map((row) => Array.from(row, (v) => v ?? ""));
+  const folded = foldMergedHeader(rows, merges);
+  return folded.some((row) => row.some((cell) => cell !== "")) ? folded : null;
+};
@@ -0,0 +1,764 @@
+// iCalendar (RFC 5545) support: VEVENT import with RRULE/EXDATE expansion, and export
+import { WINDOWS_TIME_ZONES } from "./windowsZones";
+
+// Rules without COUNT or UNTIL are expanded for this many weeks from the current week
+export const UNBOUNDED_RECURRENCE_WEEKS = 52;
+// A rule whose BYxxx parts match nothing for this many periods in a row has ended
+const MAX_EMPTY_PERIODS = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// Date-time as written in the file. Wall-clock fields are encoded as a UTC
+// timestamp so calendar arithmetic never crosses a DST change.
+interface IcsDateTime {
+  wall: number;
+  // "utc" for values ending in Z, "floating" for local time, otherwise a TZID
+  zone: string;
+  allDay: boolean;
+}
+
+interface RecurrenceRule {
+  freq: "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+  interval: number;
+  count?: number;
+  until?: IcsDateTime;
+  byDay: Array<{ ordinal: number; weekday: number }>;
+  byMonthDay: number[];
+  byMonth: number[];
+}
+
+interface VEvent {
+  uid: string;
+  summary: string;
+  description: string;
+  start: IcsDateTime;
+  durationMs: number;
+  rrule?: RecurrenceRule;
+  exdates: number[];
+  // EXDATE;VALUE=DATE entries, which exclude every occurrence on that day (as wall midnight)
+  exdays: number[];
+  recurrenceId?: number;
+  cancelled: boolean;
+}
+
+// --- Content lines ---
+
+const unfoldLines = (text: string): string[] =>
+  text
+    .replace(/\r\n/g, "\n")
+    .replace(/\n[ \t]/g, "")
+    .split("\n")
+    .filter((line) => line.trim().length > 0);
+
+const parseContentLine = (line: string): ContentLine | null => {
+  // The value starts at the first colon outside a quoted parameter value
+  let insideQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') insideQuotes = !insideQuotes;
+    else if (line[i] === ":" && !insideQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf("=");
+    if (eq > 0)
+      params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+export const unescapeText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === "n" || ch === "N" ? "\n" : ch));
+
+// --- Dates and time zones ---
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const zoneFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = zoneFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    zoneFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+// Offset of a time zone from UTC at a given instant, in milliseconds
+export const zoneOffsetMs = (instant: number, timeZone: string): number => {
+  const parts = zoneFormatter(timeZone).formatToParts(new Date(instant));
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value);
+  const asUtc = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second")
+  );
+  return asUtc - (instant - (instant % 1000));
+};
+
+const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    zoneFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const toInstant = (wall: number, zone: string): number => {
+  if (zone === "utc") return wall;
+  if (zone === "floating" || !isValidTimeZone(zone)) {
+    const d = new Date(wall);
+    return new Date(
+      d.getUTCFullYear(),
+      d.getUTCMonth(),
+      d.getUTCDate(),
+      d.getUTCHours(),
+      d.getUTCMinutes(),
+      d.getUTCSeconds()
+    ).getTime();
+  }
+  // Two passes settle the offset for wall times next to a DST transition
+  const offset = zoneOffsetMs(wall, zone);
+  const instant = wall - offset;
+  const corrected = zoneOffsetMs(instant, zone);
+  return corrected === offset ? instant : wall - corrected;
+};
+
+const parseDateValue = (value: string, params: Record<string, string>): IcsDateTime | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, y, mo, d, h = "0", mi = "0", s = "0", utc] = match;
+  const wall = Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s));
+  const allDay = match[4] === undefined;
+  const tzid = params.TZID?.trim();
+  const zone = utc ? "utc" : tzid && !allDay ? (WINDOWS_TIME_ZONES[tzid] ?? tzid) : "floating";
+  return { wall, zone, allDay };
+};
+
+// ISO 8601 duration such as PT1H30M, P1D or P1W
+const parseDuration = (value: string): number | null => {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(
+    value.trim()
+  );
+  if (!match) return null;
+  const [, sign, w = "0", d = "0", h = "0", m = "0", s = "0"] = match;
+  const ms =
+    ((Number(w) * 7 + Number(d)) * 24 * 3600 + Number(h) * 3600 + Number(m) * 60 + Number(s)) *
+    1000;
+  return sign === "-" ? -ms : ms;
+};
+
+// --- Recurrence rules ---
+
+const parseRecurrenceRule = (value: string): RecurrenceRule | null => {
+  const parts: Record<string, string> = {};
+  for (const pair of value.split(";")) {
+    const [key, val] = pair.split("=");
+    if (key && val) parts[key.toUpperCase()] = val.toUpperCase();
+  }
+  const freq = parts.FREQ;
+  if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY" && freq !== "YEARLY") {
+    return null;
+  }
+  const byDay = (parts.BYDAY ?? "")
+    .split(",")
+    .filter(Boolean)
+    .flatMap((token) => {
+      const match = /^([+-]?\d+)?([A-Z]{2})$/.exec(token);
+      const weekday = match ? WEEKDAY_CODES.indexOf(match[2]) : -1;
+      return match && weekday !== -1 ? [{ ordinal: Number(match[1] ?? 0), weekday }] : [];
+    });
+  const numbers = (list?: string) =>
+    (list ?? "")
+      .split(",")
+      .map(Number)
+      .filter((n) => Number.isInteger(n) && n !== 0);
+
+  return {
+    freq,
+    interval: Math.max(1, Number(parts.INTERVAL) || 1),
+    count: parts.COUNT ? Number(parts.COUNT) : undefined,
+    until: parts.UNTIL ? (parseDateValue(parts.UNTIL, {}) ?? undefined) : undefined,
+    byDay,
+    byMonthDay: numbers(parts.BYMONTHDAY),
+    byMonth: numbers(parts.BYMONTH),
+  };
+};
+
+const daysInMonth = (year: number, month: number) =>
+  new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// Candidate wall times for one period (day, week, month or year) of a rule
+const periodCandidates = (start: number, rule: RecurrenceRule, period: number): number[] => {
+  const s = new Date(start);
+  const timeOfDay = start - Date.UTC(s.getUTCFullYear(), s.getUTCMonth(), s.getUTCDate());
+  const at = (year: number, month: number, day: number) => Date.UTC(year, month, day) + timeOfDay;
+  const step = period * rule.interval;
+
+  // Days of a month matching BYDAY, honouring ordinals such as 1MO or -1FR
+  const monthDaysByWeekday = (year: number, month: number): number[] => {
+    const days: number[] = [];
+    const length = daysInMonth(year, month);
+    for (const { ordinal, weekday } of rule.byDay) {
+      const matching: number[] = [];
+      for (let day = 1; day <= length; day++) {
+        if (new Date(Date.UTC(year, month, day)).getUTCDay() === weekday) matching.push(day);
+      }
+      if (ordinal === 0) days.push(...matching);
+      else {
+        const day = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+        if (day !== undefined) days.push(day);
+      }
+    }
+    return days;
+  };
+
+  const monthDays = (year: number, month: number): number[] => {
+    const length = daysInMonth(year, month);
+    if (rule.byMonthDay.length > 0) {
+      return rule.byMonthDay
+        .map((d) => (d > 0 ? d : length + d + 1))
+        .filter((d) => d >= 1 && d <= length);
+    }
+    if (rule.byDay.length > 0) return monthDaysByWeekday(year, month);
+    return s.getUTCDate() <= length ? [s.getUTCDate()] : [];
+  };
+
+  switch (rule.freq) {
+    case "DAILY": {
+      const candidate = start + step * DAY_MS;
+      const day = new Date(candidate);
+      if (rule.byDay.length > 0 && !rule.byDay.some((b) => b.weekday === day.getUTCDay())) {
+        return [];
+      }
+      if (rule.byMonth.length > 0 && !rule.byMonth.includes(day.getUTCMonth() + 1)) return [];
+      return [candidate];
+    }
+    case "WEEKLY": {
+      // Weeks start on Monday (the RFC default WKST)
+      const mondayOffset = (s.getUTCDay() + 6) % 7;
+      const weekStart = start - mondayOffset * DAY_MS + step * 7 * DAY_MS;
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map((b) => b.weekday) : [s.getUTCDay()];
+      return weekdays.map((weekday) => weekStart + ((weekday + 6) % 7) * DAY_MS);
+    }
+    case "MONTHLY": {
+      const month = s.getUTCMonth() + step;
+      const year = s.getUTCFullYear() + Math.floor(month / 12);
+      const m = ((month % 12) + 12) % 12;
+      if (rule.byMonth.length > 0 && !rule.byMonth.includes(m + 1)) return [];
+      return monthDays(year, m).map((day) => at(year, m, day));
+    }
+    case "YEARLY": {
+      const year = s.getUTCFullYear() + step;
+      const months = rule.byMonth.length > 0 ? rule.byMonth.map((m) => m - 1) : [s.getUTCMonth()];
+      return months.flatMap((m) => monthDays(year, m).map((day) => at(year, m, day)));
+    }
+  }
+};
+
+// Longest possible period of each frequency, so skipping ahead never passes an occurrence
+const MAX_PERIOD_DAYS: Record<RecurrenceRule["freq"], number> = {
+  DAILY: 1,
+  WEEKLY: 7,
+  MONTHLY: 31,
+  YEARLY: 366,
+};
+
+// Expand a recurring event into the wall-clock start times of its occurrences in
+// [from, to). Earlier occurrences still count towards COUNT but are not returned.
+const expandRecurrence = (
+  event: VEvent,
+  rule: RecurrenceRule,
+  from: number,
+  to: number
+): number[] => {
+  const start = event.start.wall;
+  const untilInstant = rule.until
+    ? rule.until.allDay
+      ? toInstant(rule.until.wall + DAY_MS - 1, event.start.zone)
+      : toInstant(rule.until.wall, rule.until.zone === "floating" ? event.start.zone : "utc")
+    : Infinity;
+  const result: number[] = [];
+  let produced = 0;
+
+  // Without COUNT nothing before from matters, so jump straight to it
+  const firstPeriod =
+    rule.count === undefined && from > -Infinity
+      ? Math.max(
+          0,
+          Math.floor(
+            (from - toInstant(start, event.start.zone)) /
+              (MAX_PERIOD_DAYS[rule.freq] * rule.interval * DAY_MS)
+          ) - 1
+        )
+      : 0;
+
+  let emptyPeriods = 0;
+  for (let period = firstPeriod; emptyPeriods < MAX_EMPTY_PERIODS; period++) {
+    const candidates = periodCandidates(start, rule, period).sort((a, b) => a - b);
+    emptyPeriods++;
+    for (const wall of candidates) {
+      if (wall < start) continue;
+      const instant = toInstant(wall, event.start.zone);
+      if (instant > untilInstant || instant >= to) return result;
+      if (rule.count !== undefined && produced >= rule.count) return result;
+      produced++;
+      emptyPeriods = 0;
+      if (instant >= from) result.push(wall);
+    }
+  }
+  return result;
+};
+
+// --- VEVENT parsing ---
+
+const buildEvent = (lines: ContentLine[]): VEvent | null => {
+  const find = (name: string) => lines.find((l) => l.name === name);
+  const dtstart = find("DTSTART");
+  const start = dtstart ? parseDateValue(dtstart.value, dtstart.params) : null;
+  if (!start) return null;
+
+  let durationMs = 0;
+  const dtend = find("DTEND");
+  const end = dtend ? parseDateValue(dtend.value, dtend.params) : null;
+  const duration = find("DURATION");
+  if (end) {
+    durationMs = toInstant(end.wall, end.zone) - toInstant(start.wall, start.zone);
+  } else if (duration) {
+    durationMs = parseDuration(duration.value) ?? 0;
+  } else if (start.allDay) {
+    durationMs = DAY_MS;
+  }
+
+  const excluded = lines
+    .filter((l) => l.name === "EXDATE")
+    .flatMap((l) =>
+      l.value.split(",").flatMap((v) => {
+        const date = parseDateValue(v, l.params);
+        return date ? [date] : [];
+      })
+    );
+
+  const rrule = find("RRULE");
+  const recurrenceIdLine = find("RECURRENCE-ID");
+  const recurrenceId = recurrenceIdLine
+    ? parseDateValue(recurrenceIdLine.value, recurrenceIdLine.params)
+    : null;
+
+  return {
+    uid: find("UID")?.value ?? "",
+    summary: unescapeText(find("SUMMARY")?.value ?? "").trim(),
+    description: unescapeText(find("DESCRIPTION")?.value ?? "").trim(),
+    start,
+    durationMs,
+    rrule: rrule ? (parseRecurrenceRule(rrule.value) ?? undefined) : undefined,
+    exdates: excluded.filter((d) => !d.allDay).map((d) => toInstant(d.wall, d.zone)),
+    exdays: excluded.filter((d) => d.allDay).map((d) => d.wall),
+    recurrenceId: recurrenceId ? toInstant(recurrenceId.wall, recurrenceId.zone) : undefined,
+    cancelled: find("STATUS")?.value.toUpperCase() === "CANCELLED",
+  };
+};
+
+const parseEvents = (text: string): VEvent[] => {
+  const events: VEvent[] = [];
+  let current: ContentLine[] | null = null;
+  let depth = 0;
+
+  for (const line of unfoldLines(text)) {
+    const parsed = parseContentLine(line);
+    if (!parsed) continue;
+    if (parsed.name === "BEGIN") {
+      if (parsed.value.toUpperCase() === "VEVENT") {
+        current = [];
+        depth = 0;
+      } else if (current) {
+        // Nested components such as VALARM
+        depth++;
+      }
+      continue;
+    }
+    if (parsed.name === "END" && current) {
+      if (depth > 0) {
+        depth--;
+        continue;
+      }
+      const event = buildEvent(current);
+      if (event) events.push(event);
+      current = null;
+      continue;
+    }
+    if (current && depth === 0) current.push(parsed);
+  }
+  return events;
+};
+
+// --- Conversion to import rows ---
+
+const mondayOf = (instant: number): number => {
+  const d = new Date(instant);
+  d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+// Local YYYY-MM-DD HH:mm, which the date detection reads without ambiguity
+const formatLocal = (instant: number): string => {
+  const d = new Date(instant);
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+export const ICS_HEADER = ["Hora de inicio", "Hora de finalización", "Título", "Descripción"];
+
+export interface ICalendarImport {
+  // Rows with a header row, in the standard column layout
+  rows: string[][];
+  // What was left out or read differently, shown in the import preview
+  notices: string[];
+}
+
+const formatDay = (instant: number) =>
+  new Date(instant).toLocaleDateString([], { day: "numeric", month: "short", year: "numeric" });
+
+// Parse an .ics file into rows for the regular import pipeline. Recurrences with
+// COUNT or UNTIL are expanded in full; open-ended ones for UNBOUNDED_RECURRENCE_WEEKS
+// weeks from the current week, or from their first occurrence if that is later.
+export const parseICalendar = (text: string): ICalendarImport => {
+  if (!/BEGIN:VCALENDAR/i.test(text)) {
+    throw new Error("Not an iCalendar file (missing BEGIN:VCALENDAR).");
+  }
+  // All-day entries (holidays, closures) are not classes in the timetable
+  const vevents = parseEvents(text).filter((e) => !e.start.allDay && !e.cancelled);
+
+  const overridden = new Set(
+    vevents.flatMap((e) => (e.recurrenceId !== undefined ? [`${e.uid}|${e.recurrenceId}`] : []))
+  );
+
+  const currentWeek = mondayOf(Date.now());
+  let openEnded = 0;
+  let openEndedFrom = Infinity;
+  let openEndedTo = -Infinity;
+
+  const occurrences: Array<{ start: number; end: number; event: VEvent }> = [];
+  for (const event of vevents) {
+    let walls = [event.start.wall];
+    const rule = event.rrule;
+    if (rule && event.recurrenceId === undefined) {
+      if (rule.count === undefined && rule.until === undefined) {
+        const from = Math.max(currentWeek, mondayOf(toInstant(event.start.wall, event.start.zone)));
+        const to = from + UNBOUNDED_RECURRENCE_WEEKS * 7 * DAY_MS;
+        walls = expandRecurrence(event, rule, from, to);
+        openEnded++;
+        openEndedFrom = Math.min(openEndedFrom, from);
+        openEndedTo = Math.max(openEndedTo, to - DAY_MS);
+      } else {
+        walls = expandRecurrence(event, rule, -Infinity, Infinity);
+      }
+    }
+    for (const wall of walls) {
+      const start = toInstant(wall, event.start.zone);
+      if (rule && event.exdates.includes(start)) continue;
+      if (rule && event.exdays.includes(wall - (wall % DAY_MS))) continue;
+      if (rule && overridden.has(`${event.uid}|${start}`)) continue;
+      occurrences.push({ start, end: start + event.durationMs, event });
+    }
+  }
+  occurrences.sort((a, b) => a.start - b.start);
+
+  const notices: string[] = [];
+  const unknownZones = new Map<string, number>();
+  for (const { start } of vevents) {
+    if (start.zone !== "utc" && start.zone !== "floating" && !isValidTimeZone(start.zone)) {
+      unknownZones.set(start.zone, (unknownZones.get(start.zone) ?? 0) + 1);
+    }
+  }
+  for (const [zone, count] of unknownZones) {
+    notices.push(
+      `Time zone “${zone}” is not recognized: ${count} ${count === 1 ? "event was" : "events were"} read in this computer's time zone.`
+    );
+  }
+  if (openEnded > 0) {
+    notices.push(
+      `${openEnded} repeating ${openEnded === 1 ? "event has" : "events have"} no end date. ` +
+        `Only occurrences from ${formatDay(openEndedFrom)} to ${formatDay(openEndedTo)} are imported.`
+    );
+  }
+
+  const rows = occurrences.map((o) => [
+    formatLocal(o.start),
+    formatLocal(o.end),
+    o.event.summary,
+    o.event.description,
+  ]);
+
+  return { rows: [ICS_HEADER, ...rows], notices };
+};
+
+// --- Export ---
+
+const PRODUCT_ID = "-//AI Schedule Beautifier//EN";
+const UID_DOMAIN = "schedule-beautifier";
+const MAX_LINE_OCTETS = 75;
+
+export interface ICalendarExportOptions {
+  // Emit identical weekly classes as one RRULE series instead of separate VEVENTs
+  groupWeekly: boolean;
+  calendarName?: string;
+  // IANA zone the event times are written in; defaults to the browser's zone
+  timeZone?: string;
+}
+
+export const escapeText = (value: string): string =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// Fold content lines at 75 octets without splitting multi-byte characters
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const ch of line) {
+    const size = encoder.encode(ch).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += ch;
+    octets += size;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+};
+
+// FNV-1a hash, so UIDs have a fixed shape whatever the id or series key looks like
+const hashString = (value: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+};
+
+const pad2 = (n: number) => n.toString().padStart(2, "0");
+
+// Wall-clock date-time in the browser's local zone (basic format, no Z)
+const formatLocalStamp = (d: Date): string =>
+  `${d.getFullYear()}${pad2(d.getMonth() + 1)}${pad2(d.getDate())}T${pad2(d.getHours())}${pad2(d.getMinutes())}${pad2(d.getSeconds())}`;
+
+const formatUtcStamp = (d: Date): string =>
+  `${d.getUTCFullYear()}${pad2(d.getUTCMonth() + 1)}${pad2(d.getUTCDate())}T${pad2(d.getUTCHours())}${pad2(d.getUTCMinutes())}${pad2(d.getUTCSeconds())}Z`;
+
+const formatOffset = (ms: number): string => {
+  const minutes = Math.round(ms / 60000);
+  const sign = minutes < 0 ? "-" : "+";
+  const abs = Math.abs(minutes);
+  return `${sign}${pad2(Math.floor(abs / 60))}${pad2(abs % 60)}`;
+};
+
+// Find the exact instants the zone's UTC offset changes within the given years
+const findTransitions = (
+  timeZone: string,
+  fromYear: number,
+  toYear: number
+): Array<{ instant: number; from: number; to: number }> => {
+  const transitions: Array<{ instant: number; from: number; to: number }> = [];
+  let previous = Date.UTC(fromYear, 0, 1);
+  let previousOffset = zoneOffsetMs(previous, timeZone);
+  const end = Date.UTC(toYear + 1, 0, 1);
+  for (let t = previous + DAY_MS; t <= end; t += DAY_MS) {
+    const offset = zoneOffsetMs(t, timeZone);
+    if (offset !== previousOffset) {
+      // Narrow the change down to the minute
+      let lo = previous;
+      let hi = t;
+      while (hi - lo > 60000) {
+        const mid = lo + Math.floor((hi - lo) / 120000) * 60000;
+        if (zoneOffsetMs(mid, timeZone) === previousOffset) lo = mid;
+        else hi = mid;
+      }
+      transitions.push({ instant: hi, from: previousOffset, to: offset });
+      previousOffset = offset;
+    }
+    previous = t;
+  }
+  return transitions;
+};
+
+// VTIMEZONE with one STANDARD/DAYLIGHT block per transition in the exported years
+const buildTimeZone = (timeZone: string, fromYear: number, toYear: number): string[] => {
+  const transitions = findTransitions(timeZone, fromYear, toYear);
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${timeZone}`];
+  if (transitions.length === 0) {
+    const offset = formatOffset(zoneOffsetMs(Date.UTC(fromYear, 0, 1), timeZone));
+    lines.push(
+      "BEGIN:STANDARD",
+      "DTSTART:19700101T000000",
+      `TZOFFSETFROM:${offset}`,
+      `TZOFFSETTO:${offset}`,
+      "END:STANDARD"
+    );
+  }
+  for (const { instant, from, to } of transitions) {
+    const kind = to > from ? "DAYLIGHT" : "STANDARD";
+    // DTSTART is the local time of the change, expressed in the old offset
+    const wall = new Date(instant + from);
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${formatUtcStamp(wall).slice(0, -1)}`,
+      `TZOFFSETFROM:${formatOffset(from)}`,
+      `TZOFFSETTO:${formatOffset(to)}`,
+      `END:${kind}`
+    );
+  }
+  lines.push("END:VTIMEZONE");
+  return lines;
+};
+
+interface ExportableEvent {
+  // Kept across edits, so the UID is too
+  id: string;
+  start: Date;
+  end: Date;
+  title: string;
+  description: string;
+}
+
+interface ExportSeries<T extends ExportableEvent> {
+  // Weekday, time and content shared by every class in the series
+  key: string;
+  first: T;
+  // Number of weekly slots from the first to the last occurrence
+  weeks: number;
+  // Weekly slots within the span that have no class
+  skipped: Date[];
+}
+
+const WEEK_MS = 7 * DAY_MS;
+
+// Group classes that repeat at the same weekday and time with the same content
+const groupWeekly = <T extends ExportableEvent>(events: T[]): Array<ExportSeries<T>> => {
+  const groups = new Map<string, T[]>();
+  for (const event of events) {
+    const key = [
+      event.title.trim().toLowerCase(),
+      event.description,
+      event.start.getDay(),
+      event.start.getHours(),
+      event.start.getMinutes(),
+      event.end.getTime() - event.start.getTime(),
+    ].join("|");
+    const group = groups.get(key) ?? [];
+    group.push(event);
+    groups.set(key, group);
+  }
+
+  const series: Array<ExportSeries<T>> = [];
+  for (const [key, group] of groups) {
+    group.sort((a, b) => a.start.getTime() - b.start.getTime());
+    const first = group[0];
+    const weekIndex = (d: Date) => {
+      // Calendar days rather than milliseconds, so DST changes don't shift weeks
+      const a = Date.UTC(first.start.getFullYear(), first.start.getMonth(), first.start.getDate());
+      const b = Date.UTC(d.getFullYear(), d.getMonth(), d.getDate());
+      return Math.round((b - a) / WEEK_MS);
+    };
+    const present = new Set(group.map((e) => weekIndex(e.start)));
+    const weeks = weekIndex(group[group.length - 1].start) + 1;
+    const skipped: Date[] = [];
+    for (let w = 0; w < weeks; w++) {
+      if (!present.has(w)) {
+        const d = new Date(first.start);
+        d.setDate(d.getDate() + w * 7);
+        skipped.push(d);
+      }
+    }
+    series.push({ key, first, weeks, skipped });
+  }
+  return series;
+};
+
+// Serialize events to an RFC 5545 calendar with CRLF line endings
+export const serializeICalendar = <T extends ExportableEvent>(
+  events: T[],
+  options: ICalendarExportOptions
+): string => {
+  const timeZone = options.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const stamp = formatUtcStamp(new Date());
+  const years = events.flatMap((e) => [e.start.getFullYear(), e.end.getFullYear()]);
+  const fromYear = years.length > 0 ? Math.min(...years) : new Date().getFullYear();
+  const toYear = years.length > 0 ? Math.max(...years) : fromYear;
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+  ];
+  if (options.calendarName) lines.push(`X-WR-CALNAME:${escapeText(options.calendarName)}`);
+  lines.push(`X-WR-TIMEZONE:${timeZone}`, ...buildTimeZone(timeZone, fromYear, toYear));
+
+  const pushEvent = (event: ExportableEvent, uidKey: string, extra: string[]) => {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${hashString(uidKey)}-${hashString(`${uidKey}#`)}@${UID_DOMAIN}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;TZID=${timeZone}:${formatLocalStamp(event.start)}`,
+      `DTEND;TZID=${timeZone}:${formatLocalStamp(event.end)}`,
+      `SUMMARY:${escapeText(event.title)}`
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    lines.push(...extra, "END:VEVENT");
+  };
+
+  // UIDs follow the event id (or the series identity), not its times or week count, so
+  // re-importing an edited export updates the calendar instead of duplicating events
+  if (options.groupWeekly) {
+    for (const { key, first, weeks, skipped } of groupWeekly(events)) {
+      if (weeks === 1) {
+        pushEvent(first, first.id, []);
+        continue;
+      }
+      const extra = [`RRULE:FREQ=WEEKLY;COUNT=${weeks}`];
+      if (skipped.length > 0) {
+        extra.push(`EXDATE;TZID=${timeZone}:${skipped.map(formatLocalStamp).join(",")}`);
+      }
+      pushEvent(first, `series|${key}`, extra);
+    }
+  } else {
+    for (const event of events) pushEvent(event, event.id, []);
+  }
+
+  lines.push("END:VCALENDAR");
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+};
@@ -0,0 +1,225 @@
+// Week timetable as a standalone image for social media: drawn to SVG with the same
+// timeline as the on-screen grid (collapsed gaps, side-by-side classes, event colors),
+// then rasterized to PNG through a canvas. Works offline; fonts are the system ones.
+import type { LayoutSettings, ScheduleEvent } from "../types";
+import { addDays, daysOfWeek, formatMinutes, formatTime } from "./dates";
+import {
+  buildTimeline,
+  layoutDay,
+  minutesToY,
+  piecePosition,
+  rulerMarks,
+  splitIntoDays,
+  visibleWeekDays,
+} from "./timeline";
+
+export type ImagePreset = "square" | "story" | "a4";
+
+export const IMAGE_PRESETS: Record<ImagePreset, { label: string; width: number; height: number }> =
+  {
+    square: { label: "Square post (1080×1080)", width: 1080, height: 1080 },
+    story: { label: "Story 9:16 (1080×1920)", width: 1080, height: 1920 },
+    // A4 portrait at 150 dpi
+    a4: { label: "A4 (1240×1754)", width: 1240, height: 1754 },
+  };
+
+export interface WeekImageOptions {
+  preset: ImagePreset;
+  settings: LayoutSettings;
+  // Studio name drawn above the grid
+  title?: string;
+  // e.g. "8 sept – 14 sept 2025"
+  weekLabel?: string;
+}
+
+const FONT_FAMILY = "ui-sans-serif, system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif";
+
+// Tailwind classes used for event colors, as plain colors
+const TEXT_COLORS: Record<string, string> = {
+  "text-white": "#ffffff",
+  "text-black": "#000000",
+  "text-slate-800": "#1e293b",
+};
+
+const eventColors = (classes: string) => {
+  const bg = /\bbg-\[(#[0-9a-f]{3,8})\]/i.exec(classes)?.[1] ?? "#e2e8f0";
+  const border = /\bborder-\[(#[0-9a-f]{3,8})\]/i.exec(classes)?.[1] ?? bg;
+  const textClass = classes.split(/\s+/).find((name) => name in TEXT_COLORS);
+  return { bg, border, text: textClass ? TEXT_COLORS[textClass] : "#1e293b" };
+};
+
+const escapeXml = (text: string) => text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export const renderWeekSvg = (
+  events: ScheduleEvent[],
+  weekStart: Date,
+  options: WeekImageOptions
+): string => {
+  const { width, height } = IMAGE_PRESETS[options.preset];
+  const padding = Math.round(width * 0.04);
+  const titleSize = Math.round(width * 0.05);
+  const labelSize = Math.round(width * 0.028);
+  const daySize = Math.round(width * 0.024);
+  const rulerSize = Math.round(width * 0.018);
+  const parts: string[] = [];
+  const text = (x: number, y: number, size: number, content: string, attrs = "") =>
+    parts.push(
+      `<text x="${round(x)}" y="${round(y)}" font-size="${size}" ${attrs}>${escapeXml(content)}</text>`
+    );
+
+  // Header: studio title and week label
+  let top = padding;
+  if (options.title) {
+    top += titleSize;
+    text(padding, top, titleSize, options.title, 'font-weight="700" fill="#0f172a"');
+    top += titleSize * 0.4;
+  }
+  if (options.weekLabel) {
+    top += labelSize;
+    text(padding, top, labelSize, options.weekLabel, 'fill="#64748b"');
+    top += labelSize * 0.6;
+  }
+
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  const pieces = splitIntoDays(events, days);
+  const timeline = buildTimeline(pieces, options.settings);
+  const dayIndices = visibleWeekDays(pieces, options.settings.alwaysShowWeekend);
+
+  const rulerWidth = rulerSize * 4;
+  const gridLeft = padding + rulerWidth;
+  const columnWidth = (width - padding - gridLeft) / dayIndices.length;
+  const headerHeight = daySize * 2.2;
+  const gridTop = top + headerHeight;
+  const gridHeight = height - padding - gridTop;
+  // The grid keeps its proportions and is stretched to fill the image height
+  const scale = timeline.totalHeight > 0 ? gridHeight / timeline.totalHeight : 1;
+  const yOf = (minutes: number) => gridTop + minutesToY(timeline, minutes) * scale;
+
+  // Day headers
+  dayIndices.forEach((dayIndex, column) => {
+    const x = gridLeft + column * columnWidth + columnWidth / 2;
+    text(
+      x,
+      top + daySize * 1.4,
+      daySize,
+      daysOfWeek[dayIndex],
+      'font-weight="600" fill="#334155" text-anchor="middle"'
+    );
+  });
+
+  // Background: hour lines, finer grid lines and collapsed gap markers
+  const line = (y: number, stroke: string, dashed = false) =>
+    parts.push(
+      `<line x1="${gridLeft}" x2="${width - padding}" y1="${round(y)}" y2="${round(y)}" stroke="${stroke}"${dashed ? ' stroke-dasharray="6 4"' : ""}/>`
+    );
+  line(gridTop, "#e2e8f0");
+  for (const seg of timeline.segments) {
+    if (seg.type === "gap") {
+      const middle = yOf(seg.start) + (seg.height * scale) / 2;
+      line(middle, "#cbd5e1", true);
+      text(
+        padding + rulerWidth - rulerSize * 0.5,
+        middle + rulerSize * 0.35,
+        Math.round(rulerSize * 0.85),
+        `${formatMinutes(seg.start)}–${formatMinutes(seg.end)}`,
+        'fill="#94a3b8" text-anchor="end"'
+      );
+      continue;
+    }
+    const interval = options.settings.gridInterval;
+    for (
+      let m = Math.floor(seg.start / interval) * interval + interval;
+      m <= seg.end;
+      m += interval
+    ) {
+      if (m % 60 === 0 || m === seg.end) line(yOf(m), "#e2e8f0");
+      else line(yOf(m), "#f1f5f9", true);
+    }
+  }
+  for (const minutes of rulerMarks(timeline)) {
+    const y = Math.min(Math.max(yOf(minutes), gridTop + rulerSize), height - padding);
+    text(
+      padding + rulerWidth - rulerSize * 0.5,
+      y + rulerSize * 0.35,
+      rulerSize,
+      formatMinutes(minutes),
+      'fill="#64748b" text-anchor="end"'
+    );
+  }
+  dayIndices.forEach((_, column) => {
+    const x = round(gridLeft + column * columnWidth);
+    parts.push(
+      `<line x1="${x}" x2="${x}" y1="${round(gridTop)}" y2="${height - padding}" stroke="#e2e8f0"/>`
+    );
+  });
+
+  // Event cards, clipped so long titles do not spill into neighbours
+  const cardTitleSize = Math.round(Math.min(columnWidth * 0.11, width * 0.02));
+  const timeSize = Math.round(cardTitleSize * 0.85);
+  dayIndices.forEach((dayIndex, column) => {
+    const dayPieces = pieces.filter((piece) => piece.dayIndex === dayIndex);
+    for (const layout of layoutDay(dayPieces)) {
+      const { piece } = layout;
+      const position = piecePosition(timeline, piece);
+      const x = gridLeft + column * columnWidth + layout.left * columnWidth + 2;
+      const y = gridTop + position.top * scale + 1;
+      const w = layout.width * columnWidth - 4;
+      const h = Math.max(position.height * scale - 2, cardTitleSize + 8);
+      const colors = eventColors(piece.event.color);
+      const clipId = `card-${parts.length}`;
+      parts.push(
+        `<clipPath id="${clipId}"><rect x="${round(x)}" y="${round(y)}" width="${round(w)}" height="${round(h)}"/></clipPath>`,
+        `<rect x="${round(x)}" y="${round(y)}" width="${round(w)}" height="${round(h)}" rx="${Math.round(cardTitleSize * 0.5)}" fill="${colors.bg}" stroke="${colors.border}"/>`,
+        `<g clip-path="url(#${clipId})" fill="${colors.text}">`
+      );
+      const textX = x + cardTitleSize * 0.5;
+      text(textX, y + cardTitleSize * 1.3, cardTitleSize, piece.event.title, 'font-weight="700"');
+      if (h > cardTitleSize * 1.4 + timeSize * 1.4) {
+        text(
+          textX,
+          y + cardTitleSize * 1.3 + timeSize * 1.4,
+          timeSize,
+          `${formatTime(piece.event.start)} - ${formatTime(piece.event.end)}`
+        );
+      }
+      parts.push("</g>");
+    }
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT_FAMILY}">`,
+    `<rect width="${width}" height="${height}" fill="#ffffff"/>`,
+    ...parts,
+    "</svg>",
+  ].join("\n");
+};
+
+// Draw the SVG onto a canvas of the same size and encode it as PNG
+export const rasterizeSvg = (svg: string, width: number, height: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement("canvas");
+      canvas.width = width;
+      canvas.height = height;
+      const context = canvas.getContext("2d");
+      if (!context) {
+        reject(new Error("Canvas is not available"));
+        return;
+      }
+      context.drawImage(image, 0, 0, width, height);
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error("Could not encode the PNG"))),
+        "image/png"
+      );
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not draw the schedule image"));
+    };
+    image.src = url;
+  });
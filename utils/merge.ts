@@ -0,0 +1,55 @@
+import type { ScheduleEvent } from "../types";
+import { normalizeHeader } from "./columns";
+import type { EventFields } from "./validation";
+
+export interface MergeSummary {
+  added: number;
+  updated: number;
+  skipped: number;
+}
+
+// Same class at the same time, regardless of case, accents or spacing in the title
+export const eventKey = (event: Pick<EventFields, "start" | "end" | "title">): string =>
+  `${event.start.toISOString()}|${event.end.toISOString()}|${normalizeHeader(event.title)}`;
+
+const sameDetails = (a: EventFields, b: EventFields): boolean =>
+  a.description === b.description &&
+  a.capacity === b.capacity &&
+  a.total === b.total &&
+  a.waiting === b.waiting &&
+  a.price === b.price;
+
+// Merge imported events into the current schedule. Events matching an existing
+// one by key update its booking data (keeping its id and color) or are skipped
+// when nothing changed; the rest are added.
+export const mergeEvents = (
+  existing: ScheduleEvent[],
+  incoming: ScheduleEvent[]
+): { events: ScheduleEvent[]; summary: MergeSummary } => {
+  const summary: MergeSummary = { added: 0, updated: 0, skipped: 0 };
+  const events = [...existing];
+  const indexByKey = new Map(events.map((event, i) => [eventKey(event), i]));
+  const ids = new Set(events.map((event) => event.id));
+
+  for (const event of incoming) {
+    const key = eventKey(event);
+    const index = indexByKey.get(key);
+    if (index !== undefined) {
+      const current = events[index];
+      if (sameDetails(current, event)) {
+        summary.skipped++;
+      } else {
+        events[index] = { ...event, id: current.id, color: current.color };
+        summary.updated++;
+      }
+      continue;
+    }
+    let id = event.id;
+    for (let n = 2; ids.has(id); n++) id = `${event.id}#${n}`;
+    ids.add(id);
+    indexByKey.set(key, events.length);
+    events.push({ ...event, id });
+    summary.added++;
+  }
+  return { events, summary };
+};
@@ -0,0 +1,43 @@
+// Header rows of spreadsheets and HTML tables that use merged cells
+import { classifyDateTime } from "./dates";
+
+// Merged cell area in a sheet or HTML table (zero-based, inclusive)
+export interface CellRange {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+// Resolve the header: drop a title banner merged across the whole table, and
+// fold a two-row header (merged group cells over sub-headers) into one row
+export const foldMergedHeader = (rows: string[][], merges: CellRange[]): string[][] => {
+  let top = rows.findIndex((row) => row.some((cell) => cell !== ""));
+  if (top === -1) return rows;
+  const width = Math.max(...rows.map((row) => row.length));
+
+  const isBanner = (rowIndex: number) =>
+    merges.some((m) => m.top === rowIndex && m.right - m.left + 1 >= width && width > 1);
+  if (isBanner(top)) {
+    top = rows.findIndex((row, i) => i > top && row.some((cell) => cell !== ""));
+    if (top === -1) return [];
+  }
+
+  const groups = merges.filter((m) => m.top === top && m.bottom === top && m.right > m.left);
+  const sub = rows[top + 1];
+  if (groups.length === 0 || !sub) return rows.slice(top);
+
+  // Only a row of labels under the groups is a sub-header; a row with dates or
+  // times is already the data, even when the header has merged cells
+  const labelsUnderGroups = groups.every((m) =>
+    sub.slice(m.left, m.right + 1).some((cell) => cell.trim() !== "")
+  );
+  const hasDateOrTime = sub.some((cell) => cell.trim() !== "" && classifyDateTime(cell) !== null);
+  if (!labelsUnderGroups || hasDateOrTime) return rows.slice(top);
+
+  const combined = rows[top].map((group, col) => {
+    const detail = sub[col] ?? "";
+    return group === detail ? group : [group, detail].filter(Boolean).join(" ");
+  });
+  return [combined, ...rows.slice(top + 2)];
+};
@@ -0,0 +1,63 @@
+import type { LayoutSettings } from "../types";
+
+export const DEFAULT_LAYOUT_SETTINGS: LayoutSettings = {
+  hourHeight: 60,
+  hourRange: "auto",
+  // Also the bounds used when a week has no events
+  startHour: 6,
+  endHour: 23,
+  collapseGaps: true,
+  gapMarkerHeight: 16,
+  minCollapsibleGapMinutes: 60,
+  alwaysShowWeekend: false,
+  gridInterval: 60,
+  snapMinutes: 15,
+};
+
+const SETTINGS_STORAGE_KEY = "schedule-beautifier:layout-settings";
+
+const clamp = (value: unknown, min: number, max: number, fallback: number): number =>
+  typeof value === "number" && Number.isFinite(value)
+    ? Math.min(max, Math.max(min, Math.round(value)))
+    : fallback;
+
+// Keep stored or typed-in values within ranges the grid can draw
+export const sanitizeLayoutSettings = (value: Partial<LayoutSettings>): LayoutSettings => {
+  const d = DEFAULT_LAYOUT_SETTINGS;
+  const startHour = clamp(value.startHour, 0, 23, d.startHour);
+  return {
+    hourHeight: clamp(value.hourHeight, 20, 240, d.hourHeight),
+    hourRange: value.hourRange === "fixed" ? "fixed" : "auto",
+    startHour,
+    endHour: clamp(value.endHour, startHour + 1, 24, Math.max(d.endHour, startHour + 1)),
+    collapseGaps: typeof value.collapseGaps === "boolean" ? value.collapseGaps : d.collapseGaps,
+    gapMarkerHeight: clamp(value.gapMarkerHeight, 8, 60, d.gapMarkerHeight),
+    minCollapsibleGapMinutes: clamp(
+      value.minCollapsibleGapMinutes,
+      15,
+      24 * 60,
+      d.minCollapsibleGapMinutes
+    ),
+    alwaysShowWeekend:
+      typeof value.alwaysShowWeekend === "boolean" ? value.alwaysShowWeekend : d.alwaysShowWeekend,
+    gridInterval: value.gridInterval === 15 || value.gridInterval === 30 ? value.gridInterval : 60,
+    snapMinutes: value.snapMinutes === 5 ? 5 : 15,
+  };
+};
+
+export const loadLayoutSettings = (): LayoutSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return sanitizeLayoutSettings(stored ? JSON.parse(stored) : {});
+  } catch {
+    return DEFAULT_LAYOUT_SETTINGS;
+  }
+};
+
+export const saveLayoutSettings = (settings: LayoutSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage unavailable (private mode, quota) – settings just won't persist
+  }
+};
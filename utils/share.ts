@@ -0,0 +1,78 @@
+// Read-only share links: the schedule and how it is shown, compressed into the URL
+// fragment so nothing leaves the browser. Compression uses the built-in CompressionStream.
+import type { LayoutSettings, ScheduleEvent, ScheduleView } from "../types";
+import { sanitizeLayoutSettings } from "./settings";
+import { deserializeEvents, serializeEvents } from "./storage";
+
+export interface SharedSchedule {
+  name: string;
+  events: ScheduleEvent[];
+  view: ScheduleView;
+  // The day the schedule opens on
+  date: Date;
+  settings: LayoutSettings;
+}
+
+const SHARE_PREFIX = "#share=";
+const SHARE_VERSION = 1;
+const VIEWS: ScheduleView[] = ["day", "week", "month", "agenda"];
+
+const pipeBytes = async (data: Uint8Array, transform: CompressionStream | DecompressionStream) =>
+  new Uint8Array(
+    await new Response(new Blob([data]).stream().pipeThrough(transform)).arrayBuffer()
+  );
+
+// URL-safe base64 without padding
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+export const createShareUrl = async (shared: SharedSchedule): Promise<string> => {
+  const json = JSON.stringify({
+    v: SHARE_VERSION,
+    name: shared.name,
+    events: serializeEvents(shared.events),
+    view: shared.view,
+    date: shared.date.toISOString(),
+    settings: shared.settings,
+  });
+  const compressed = await pipeBytes(
+    new TextEncoder().encode(json),
+    new CompressionStream("deflate-raw")
+  );
+  const url = new URL(window.location.href);
+  url.hash = `${SHARE_PREFIX.slice(1)}${toBase64Url(compressed)}`;
+  return url.toString();
+};
+
+export const isShareFragment = (hash: string): boolean => hash.startsWith(SHARE_PREFIX);
+
+// Null when the fragment is not a share link or cannot be read (e.g. truncated when pasted)
+export const readShareFragment = async (hash: string): Promise<SharedSchedule | null> => {
+  if (!isShareFragment(hash)) return null;
+  try {
+    const json = await pipeBytes(
+      fromBase64Url(hash.slice(SHARE_PREFIX.length)),
+      new DecompressionStream("deflate-raw")
+    );
+    const data = JSON.parse(new TextDecoder().decode(json));
+    if (data?.v !== SHARE_VERSION || !Array.isArray(data.events)) return null;
+    const date = new Date(data.date);
+    return {
+      name: typeof data.name === "string" ? data.name : "",
+      events: deserializeEvents(data.events),
+      view: VIEWS.includes(data.view) ? data.view : "week",
+      date: Number.isNaN(date.getTime()) ? new Date() : date,
+      settings: sanitizeLayoutSettings(data.settings ?? {}),
+    };
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,135 @@
+// Saved schedules in IndexedDB, so imports and edits survive a reload
+import type { ScheduleEvent } from "../types";
+
+export interface SavedSchedule {
+  id: string;
+  name: string;
+  // Milliseconds since the epoch
+  updatedAt: number;
+  events: ScheduleEvent[];
+}
+
+// What the library lists: an event count instead of the events
+export interface ScheduleSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+  eventCount: number;
+}
+
+// Events as stored: dates as ISO strings, which read back the same in every browser
+type StoredEvent = Omit<ScheduleEvent, "start" | "end"> & { start: string; end: string };
+
+interface StoredSchedule extends Omit<SavedSchedule, "events"> {
+  events: StoredEvent[];
+}
+
+const DB_NAME = "schedule-beautifier";
+const DB_VERSION = 1;
+const STORE = "schedules";
+const LAST_SCHEDULE_KEY = "schedule-beautifier:last-schedule";
+
+export const serializeEvents = (events: ScheduleEvent[]): StoredEvent[] =>
+  events.map((event) => ({
+    ...event,
+    start: event.start.toISOString(),
+    end: event.end.toISOString(),
+  }));
+
+// Drops events whose dates do not parse rather than failing the whole schedule
+export const deserializeEvents = (stored: StoredEvent[]): ScheduleEvent[] =>
+  stored
+    .map((event) => ({ ...event, start: new Date(event.start), end: new Date(event.end) }))
+    .filter((event) => !Number.isNaN(event.start.getTime()) && !Number.isNaN(event.end.getTime()));
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: "id" });
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab is upgrading the database: let it, and reopen on the next call
+      db.onversionchange = () => {
+        db.close();
+        database = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    // An older tab keeps the database open and did not close it for the upgrade
+    request.onblocked = () =>
+      reject(new Error("The schedule library is open in another tab. Close it and try again."));
+  });
+  // Let a later call try again after a failure (e.g. storage blocked in private mode)
+  database.catch(() => {
+    database = null;
+  });
+  return database;
+};
+
+const run = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = operation(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// Most recently changed first. Reads every stored schedule in full, which is fine for
+// the handful of timetables a studio keeps.
+export const listSchedules = async (): Promise<ScheduleSummary[]> => {
+  const stored = await run<StoredSchedule[]>("readonly", (store) => store.getAll());
+  return stored
+    .map(({ id, name, updatedAt, events }) => ({
+      id,
+      name,
+      updatedAt,
+      eventCount: events.length,
+    }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadSchedule = async (id: string): Promise<SavedSchedule | null> => {
+  const stored = await run<StoredSchedule | undefined>("readonly", (store) => store.get(id));
+  return stored ? { ...stored, events: deserializeEvents(stored.events) } : null;
+};
+
+export const saveSchedule = async (schedule: SavedSchedule): Promise<void> => {
+  const stored: StoredSchedule = { ...schedule, events: serializeEvents(schedule.events) };
+  await run("readwrite", (store) => store.put(stored));
+};
+
+export const deleteSchedule = async (id: string): Promise<void> => {
+  await run("readwrite", (store) => store.delete(id));
+};
+
+export const newScheduleId = (): string =>
+  `schedule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// The schedule to reopen on startup
+export const loadLastScheduleId = (): string | null => {
+  try {
+    return localStorage.getItem(LAST_SCHEDULE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const saveLastScheduleId = (id: string | null) => {
+  try {
+    if (id) localStorage.setItem(LAST_SCHEDULE_KEY, id);
+    else localStorage.removeItem(LAST_SCHEDULE_KEY);
+  } catch {
+    // Only the reopening on startup is lost; the schedule itself is in IndexedDB
+  }
+};
@@ -0,0 +1,264 @@
+// Vertical layout of the week/day grid: which minutes of the day are shown,
+// which empty stretches collapse into gap markers, and where a time lands in pixels
+import type { LayoutSettings, ScheduleEvent } from "../types";
+import { addDays } from "./dates";
+
+const DAY_MINUTES = 24 * 60;
+
+// The part of an event that falls on one day of the grid. Overnight and
+// multi-day events are split into one piece per day they cover.
+export interface DayPiece {
+  event: ScheduleEvent;
+  dayIndex: number;
+  // Minutes of day, 0–1440
+  startMin: number;
+  endMin: number;
+  continuesBefore: boolean;
+  continuesAfter: boolean;
+}
+
+export type Segment = { type: "visible" | "gap"; start: number; end: number; height: number };
+
+export interface Timeline {
+  startMin: number;
+  endMin: number;
+  segments: Segment[];
+  totalHeight: number;
+  hourHeight: number;
+}
+
+const minutesOfDay = (date: Date) => date.getHours() * 60 + date.getMinutes();
+
+export const splitIntoDays = (events: ScheduleEvent[], days: Date[]): DayPiece[] => {
+  const pieces: DayPiece[] = [];
+  for (const event of events) {
+    days.forEach((day, dayIndex) => {
+      const nextDay = addDays(day, 1);
+      if (event.start >= nextDay || event.end <= day) return;
+      const continuesBefore = event.start < day;
+      const continuesAfter = event.end > nextDay;
+      pieces.push({
+        event,
+        dayIndex,
+        startMin: continuesBefore ? 0 : minutesOfDay(event.start),
+        endMin: event.end >= nextDay ? DAY_MINUTES : minutesOfDay(event.end),
+        continuesBefore,
+        continuesAfter,
+      });
+    });
+  }
+  return pieces;
+};
+
+// Gaps whose start minute is in expandedGaps stay visible even when long enough to collapse
+export const buildTimeline = (
+  pieces: DayPiece[],
+  settings: LayoutSettings,
+  expandedGaps: ReadonlySet<number> = new Set()
+): Timeline => {
+  const { hourHeight } = settings;
+
+  // Compute global visible window (crop fully empty top/bottom hours across the entire week)
+  let startMin = settings.startHour * 60;
+  let endMin = settings.endHour * 60;
+  if (pieces.length > 0) {
+    // Round to hour for tidy grid
+    const earliest = Math.floor(Math.min(...pieces.map((p) => p.startMin)) / 60) * 60;
+    const latest = Math.ceil(Math.max(...pieces.map((p) => p.endMin)) / 60) * 60;
+    if (settings.hourRange === "auto") {
+      startMin = earliest;
+      endMin = latest;
+    } else {
+      // A fixed range still widens to events outside it, so none is squashed at an edge
+      startMin = Math.min(startMin, earliest);
+      endMin = Math.max(endMin, latest);
+    }
+    startMin = Math.max(0, startMin);
+    endMin = Math.min(DAY_MINUTES, endMin);
+  }
+
+  // Build union of time intervals where at least one event exists across any day
+  const intervals: Array<{ start: number; end: number }> = [];
+  for (const piece of pieces) {
+    const start = Math.max(startMin, piece.startMin);
+    const end = Math.min(endMin, piece.endMin);
+    if (end > start) intervals.push({ start, end });
+  }
+  intervals.sort((a, b) => a.start - b.start);
+  const merged: Array<{ start: number; end: number }> = [];
+  for (const iv of intervals) {
+    if (merged.length === 0 || iv.start > merged[merged.length - 1].end) {
+      merged.push({ ...iv });
+    } else {
+      merged[merged.length - 1].end = Math.max(merged[merged.length - 1].end, iv.end);
+    }
+  }
+
+  // Create vertical timeline segments: visible stretches and collapsed gaps
+  const segments: Segment[] = [];
+  const visible = (start: number, end: number) =>
+    segments.push({ type: "visible", start, end, height: ((end - start) / 60) * hourHeight });
+
+  if (endMin > startMin && merged.length === 0) {
+    // No events within window – show a single visible block (fallback)
+    visible(startMin, endMin);
+  } else if (endMin > startMin) {
+    // Outer gaps are cropped already, or kept visible when the hour range is fixed
+    const fixed = settings.hourRange === "fixed";
+    if (fixed && merged[0].start > startMin) visible(startMin, merged[0].start);
+    merged.forEach((cur, i) => {
+      visible(cur.start, cur.end);
+      const next = merged[i + 1];
+      if (!next) {
+        if (fixed && cur.end < endMin) visible(cur.end, endMin);
+        return;
+      }
+      const gapMinutes = next.start - cur.end;
+      if (
+        settings.collapseGaps &&
+        gapMinutes >= settings.minCollapsibleGapMinutes &&
+        !expandedGaps.has(cur.end)
+      ) {
+        segments.push({
+          type: "gap",
+          start: cur.end,
+          end: next.start,
+          height: settings.gapMarkerHeight,
+        });
+      } else if (gapMinutes > 0) {
+        // Small gap – keep as visible space to avoid excessive markers
+        visible(cur.end, next.start);
+      }
+    });
+  }
+
+  const totalHeight = segments.reduce((acc, s) => acc + s.height, 0);
+  return { startMin, endMin, segments, totalHeight, hourHeight };
+};
+
+// Map absolute minutes-of-day to Y position considering collapsed gaps
+export const minutesToY = (timeline: Timeline, minutes: number): number => {
+  // Clamp into cropped window
+  const clamped = Math.max(timeline.startMin, Math.min(minutes, timeline.endMin));
+  let y = 0;
+  for (const seg of timeline.segments) {
+    if (clamped < seg.start) break;
+    if (clamped >= seg.end) {
+      y += seg.height;
+    } else {
+      // Inside a collapsed gap, times are spread over the marker height
+      y +=
+        seg.type === "visible"
+          ? ((clamped - seg.start) / 60) * timeline.hourHeight
+          : ((clamped - seg.start) / (seg.end - seg.start)) * seg.height;
+      break;
+    }
+  }
+  return y;
+};
+
+// Inverse of minutesToY. Positions above or below the grid continue at the hour
+// height, so events can be dragged outside the cropped window.
+export const yToMinutes = (timeline: Timeline, y: number): number => {
+  const perPixel = 60 / timeline.hourHeight;
+  if (y <= 0) return Math.max(0, timeline.startMin + y * perPixel);
+  let top = 0;
+  for (const seg of timeline.segments) {
+    if (y < top + seg.height) {
+      return seg.start + ((y - top) / seg.height) * (seg.end - seg.start);
+    }
+    top += seg.height;
+  }
+  return Math.min(DAY_MINUTES, timeline.endMin + (y - top) * perPixel);
+};
+
+// Minutes of day that get an hour label on the time axis: whole hours and the edges of
+// visible stretches. Times at the edges of a collapsed gap are covered by the gap's own
+// range label.
+export const rulerMarks = (timeline: Timeline): number[] => {
+  const { segments } = timeline;
+  const gapEdges = new Set(
+    segments.filter((seg) => seg.type === "gap").flatMap((seg) => [seg.start, seg.end])
+  );
+  const marks = new Set<number>();
+  for (const seg of segments) {
+    if (seg.type !== "visible") continue;
+    const first = Math.ceil(seg.start / 60) * 60;
+    if (seg.start !== first) marks.add(seg.start);
+    for (let m = first; m <= seg.end; m += 60) marks.add(m);
+  }
+  return [...marks].filter((m) => !gapEdges.has(m));
+};
+
+// Columns of a Monday-first week grid: Monday to Friday always, the weekend days
+// only when they have events unless both are always shown
+export const visibleWeekDays = (pieces: DayPiece[], alwaysShowWeekend: boolean): number[] => {
+  const indices = [0, 1, 2, 3, 4];
+  for (const dayIndex of [5, 6]) {
+    if (alwaysShowWeekend || pieces.some((piece) => piece.dayIndex === dayIndex)) {
+      indices.push(dayIndex);
+    }
+  }
+  return indices;
+};
+
+export const snapToStep = (minutes: number, step: number): number =>
+  Math.round(minutes / step) * step;
+
+// Card position of a piece, with a minimum height so short classes stay readable
+export const piecePosition = (timeline: Timeline, piece: DayPiece) => {
+  const top = minutesToY(timeline, piece.startMin);
+  const height = Math.max(minutesToY(timeline, piece.endMin) - top, 20);
+  return { top, height };
+};
+
+// Horizontal placement of a piece within its day column, as fractions of the width
+export interface PieceLayout {
+  piece: DayPiece;
+  left: number;
+  width: number;
+}
+
+const overlaps = (a: DayPiece, b: DayPiece) => a.startMin < b.endMin && b.startMin < a.endMin;
+
+// Lay out one day's pieces side by side where they overlap. Columns are counted per
+// cluster of transitively overlapping pieces, so a busy morning does not narrow the
+// evening, and each piece widens into neighbouring columns that are free for its duration.
+export const layoutDay = (pieces: DayPiece[]): PieceLayout[] => {
+  const sorted = [...pieces].sort((a, b) => a.startMin - b.startMin || b.endMin - a.endMin);
+  const layouts: PieceLayout[] = [];
+
+  let i = 0;
+  while (i < sorted.length) {
+    // Gather the cluster: pieces starting before everything so far has ended
+    const cluster = [sorted[i]];
+    let clusterEnd = sorted[i].endMin;
+    for (i++; i < sorted.length && sorted[i].startMin < clusterEnd; i++) {
+      cluster.push(sorted[i]);
+      clusterEnd = Math.max(clusterEnd, sorted[i].endMin);
+    }
+
+    // Greedy columns: first column whose last piece has ended
+    const columns: DayPiece[][] = [];
+    const columnOf = new Map<DayPiece, number>();
+    for (const piece of cluster) {
+      let index = columns.findIndex((col) => col[col.length - 1].endMin <= piece.startMin);
+      if (index === -1) index = columns.push([]) - 1;
+      columns[index].push(piece);
+      columnOf.set(piece, index);
+    }
+
+    for (const piece of cluster) {
+      const column = columnOf.get(piece) ?? 0;
+      let span = 1;
+      while (
+        column + span < columns.length &&
+        !columns[column + span].some((other) => overlaps(piece, other))
+      ) {
+        span++;
+      }
+      layouts.push({ piece, left: column / columns.length, width: span / columns.length });
+    }
+  }
+  return layouts;
+};
@@ -0,0 +1,153 @@
+import type { ColumnMapping, DateOrder, EventField, ScheduleEvent } from "../types";
+import { cellValue } from "./columns";
+import { parseDateTime } from "./dates";
+
+export type EventFields = Omit<ScheduleEvent, "id" | "color">;
+
+export interface RowIssue {
+  // 1-based row and column numbers as shown in a spreadsheet (header is row 1)
+  row: number;
+  column?: number;
+  field?: EventField;
+  message: string;
+}
+
+export interface RowResult {
+  // Index into the data rows (header excluded)
+  rowIndex: number;
+  fields: EventFields | null;
+  issues: RowIssue[];
+}
+
+// Zero-based columns the issues point at, in column order
+export const issueColumns = (issues: RowIssue[]): number[] =>
+  [
+    ...new Set(issues.flatMap((issue) => (issue.column === undefined ? [] : [issue.column - 1]))),
+  ].sort((a, b) => a - b);
+
+// Classes longer than this are flagged for review in the import preview
+export const MAX_TYPICAL_DURATION_HOURS = 4;
+
+const NUMERIC_FIELDS: Array<{ field: EventField; label: string; integer: boolean }> = [
+  { field: "capacity", label: "Capacity", integer: true },
+  { field: "total", label: "Booked", integer: true },
+  { field: "waiting", label: "Waiting", integer: true },
+  { field: "price", label: "Price", integer: false },
+];
+
+// Digits in groups of three split by the separator, as in "1.234.567" or "1,234"
+const isGrouped = (text: string, separator: string): boolean =>
+  new RegExp(`^-?\\d{1,3}(\\${separator}\\d{3})+$`).test(text);
+
+// Plain decimal text for Number(): "1.234,50" and "1,234.50" have both separators,
+// so the last one is the decimal mark. A lone separator is the decimal mark unless it
+// repeats, or the field is a whole number and it is followed by exactly three digits.
+const toPlainNumber = (text: string, integer: boolean): string | null => {
+  const decimalAt = Math.max(text.lastIndexOf("."), text.lastIndexOf(","));
+  if (decimalAt === -1) return text;
+  const decimal = text[decimalAt];
+  const group = decimal === "." ? "," : ".";
+  const whole = text.slice(0, decimalAt);
+  if (whole.includes(group)) {
+    if (!isGrouped(whole, group)) return null;
+    return `${whole.split(group).join("")}.${text.slice(decimalAt + 1)}`;
+  }
+  const repeated = text.indexOf(decimal) !== decimalAt;
+  if (isGrouped(text, decimal) && (repeated || integer)) return text.split(decimal).join("");
+  return repeated ? null : text.replace(",", ".");
+};
+
+// Accepts "12", "1.50", "1,50", "€ 1.50" and grouped thousands such as "1.234,50" or
+// "1,234.50"; empty cells count as 0
+const parseNumber = (value: string, integer: boolean): number | null => {
+  const cleaned = value.replace(/[€$£\s]/g, "");
+  if (cleaned === "") return 0;
+  const plain = toPlainNumber(cleaned, integer);
+  const n = plain === null ? Number.NaN : Number(plain);
+  if (Number.isNaN(n) || (integer && !Number.isInteger(n))) return null;
+  return n;
+};
+
+// Check every data row and collect all problems instead of stopping at the first one
+export const validateRows = (
+  dataRows: string[][],
+  mapping: ColumnMapping,
+  order: DateOrder
+): RowResult[] => {
+  const seen = new Map<string, number>();
+
+  return dataRows.map((columns, rowIndex) => {
+    const row = rowIndex + 2;
+    const issues: RowIssue[] = [];
+    const cell = (field: EventField) => cellValue(columns, mapping, field);
+    const issue = (field: EventField | undefined, message: string) => {
+      const index = field ? mapping[field] : undefined;
+      issues.push({ row, column: index === undefined ? undefined : index + 1, field, message });
+    };
+
+    const startCell = cell("start");
+    const endCell = cell("end");
+    const startDateCell = cell("startDate");
+
+    // Time-only cells take their date from the date columns, or from the start cell
+    const start = parseDateTime(startCell, order, startDateCell);
+    const end = parseDateTime(endCell, order, cell("endDate") || startDateCell || startCell);
+    if (!start) issue("start", `Invalid start date/time "${startCell}".`);
+    if (!end) issue("end", `Invalid end date/time "${endCell}".`);
+    if (start && end && end <= start) issue("end", "End time is not after start time.");
+
+    const title = cell("title").trim();
+    if (!title) issue("title", "Missing title.");
+
+    const numbers: Partial<Record<EventField, number>> = {};
+    for (const { field, label, integer } of NUMERIC_FIELDS) {
+      const value = cell(field);
+      const n = parseNumber(value, integer);
+      if (n === null) issue(field, `${label} "${value}" is not a valid number.`);
+      else numbers[field] = n;
+    }
+
+    if (start && end && title) {
+      const key = `${start.getTime()}|${end.getTime()}|${title.toLowerCase()}`;
+      const firstRow = seen.get(key);
+      if (firstRow !== undefined) issue(undefined, `Duplicate of row ${firstRow}.`);
+      else if (issues.length === 0) seen.set(key, row);
+    }
+
+    if (issues.length > 0 || !start || !end) {
+      return { rowIndex, fields: null, issues };
+    }
+    return {
+      rowIndex,
+      fields: {
+        start,
+        end,
+        title,
+        description: cell("description"),
+        capacity: numbers.capacity ?? 0,
+        total: numbers.total ?? 0,
+        waiting: numbers.waiting ?? 0,
+        price: numbers.price ?? 0,
+      },
+      issues,
+    };
+  });
+};
+
+export const endsAfterStart = (fields: EventFields): boolean => fields.end > fields.start;
+
+export const isLongerThanTypical = (fields: EventFields): boolean =>
+  (fields.end.getTime() - fields.start.getTime()) / 3600000 > MAX_TYPICAL_DURATION_HOURS;
+
+export const isOnWeekend = (date: Date): boolean => date.getDay() === 0 || date.getDay() === 6;
+
+// Values that parse fine but are unusual enough to double-check before importing
+export const suspiciousReasons = (fields: EventFields): string[] => {
+  const reasons: string[] = [];
+  if (fields.capacity === 0) reasons.push("Zero capacity");
+  if (isLongerThanTypical(fields)) {
+    reasons.push(`Longer than ${MAX_TYPICAL_DURATION_HOURS} hours`);
+  }
+  if (isOnWeekend(fields.start)) reasons.push("On a weekend");
+  return reasons;
+};
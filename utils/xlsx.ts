@@ -0,0 +1,174 @@
+// Client-side .xlsx reader: turns a worksheet into rows of display strings for
+// the regular import pipeline. Date cells become "YYYY-MM-DD HH:mm" text.
+import { type CellRange, foldMergedHeader } from "./mergedHeader";
+import { openZip, type ZipArchive } from "./zip";
+
+export interface Workbook {
+  sheetNames: string[];
+  readSheet: (index: number) => Promise<string[][]>;
+}
+
+// Built-in number formats that display dates or times
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+const SECONDS_PER_DAY = 86400;
+
+const byTag = (parent: Document | Element, tag: string): Element[] =>
+  Array.from(parent.getElementsByTagNameNS("*", tag));
+
+const readXml = async (zip: ZipArchive, path: string): Promise<Document | null> => {
+  const bytes = await zip.read(path);
+  if (!bytes) return null;
+  const doc = new DOMParser().parseFromString(new TextDecoder().decode(bytes), "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error(`Malformed spreadsheet part: ${path}`);
+  }
+  return doc;
+};
+
+// Text of a shared or inline string, skipping phonetic guides
+const stringText = (element: Element): string =>
+  byTag(element, "t")
+    .filter((t) => t.parentElement?.localName !== "rPh")
+    .map((t) => t.textContent ?? "")
+    .join("");
+
+// Custom formats count as dates when they use d/m/y/h/s outside quotes and brackets
+const isDateFormatCode = (code: string): boolean =>
+  /[dmyhs]/i.test(
+    code
+      .replace(/"[^"]*"/g, "")
+      .replace(/\[[^\]]*\]/g, "")
+      .replace(/\\./g, "")
+  );
+
+const pad = (n: number) => n.toString().padStart(2, "0");
+
+// Spreadsheet serial day number to date, time or date-time text
+const serialToText = (serial: number, date1904: boolean): string => {
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+  // Round to whole seconds to absorb floating point noise (0.35416666 → 08:30)
+  const d = new Date(epoch + Math.round(serial * SECONDS_PER_DAY) * 1000);
+  const date = `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`;
+  const seconds = d.getUTCSeconds();
+  const time = `${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}${seconds ? `:${pad(seconds)}` : ""}`;
+  if (serial < 1) return time;
+  if (Number.isInteger(serial)) return date;
+  return `${date} ${time}`;
+};
+
+// "BC12" → { row: 11, col: 54 } (zero-based)
+const parseCellRef = (ref: string): { row: number; col: number } | null => {
+  const match = /^([A-Z]+)(\d+)$/i.exec(ref);
+  if (!match) return null;
+  let col = 0;
+  for (const ch of match[1].toUpperCase()) col = col * 26 + (ch.charCodeAt(0) - 64);
+  return { row: parseInt(match[2], 10) - 1, col: col - 1 };
+};
+
+const parseRange = (ref: string): CellRange | null => {
+  const [from, to = from] = ref.split(":");
+  const a = parseCellRef(from);
+  const b = parseCellRef(to);
+  if (!a || !b) return null;
+  return { top: a.row, left: a.col, bottom: b.row, right: b.col };
+};
+
+export const openWorkbook = async (buffer: ArrayBuffer): Promise<Workbook> => {
+  const zip = openZip(buffer);
+  const workbook = await readXml(zip, "xl/workbook.xml");
+  if (!workbook) throw new Error("Not an Excel workbook (xl/workbook.xml is missing).");
+
+  const rels = await readXml(zip, "xl/_rels/workbook.xml.rels");
+  const targets = new Map<string, string>();
+  for (const rel of rels ? byTag(rels, "Relationship") : []) {
+    const target = rel.getAttribute("Target") ?? "";
+    targets.set(
+      rel.getAttribute("Id") ?? "",
+      target.startsWith("/") ? target.slice(1) : `xl/${target}`
+    );
+  }
+
+  const sheets = byTag(workbook, "sheet").map((sheet, i) => {
+    const relId =
+      sheet.getAttributeNS(
+        "http://schemas.openxmlformats.org/officeDocument/2006/relationships",
+        "id"
+      ) ?? sheet.getAttribute("r:id");
+    return {
+      name: sheet.getAttribute("name") ?? `Sheet ${i + 1}`,
+      path: targets.get(relId ?? "") ?? `xl/worksheets/sheet${i + 1}.xml`,
+    };
+  });
+  const date1904 = byTag(workbook, "workbookPr").some((pr) =>
+    ["1", "true"].includes(pr.getAttribute("date1904") ?? "")
+  );
+
+  const sharedStringsDoc = await readXml(zip, "xl/sharedStrings.xml");
+  const sharedStrings = sharedStringsDoc ? byTag(sharedStringsDoc, "si").map(stringText) : [];
+
+  // Style index → whether that cell format displays a date/time
+  const stylesDoc = await readXml(zip, "xl/styles.xml");
+  const customDateFormats = new Set<number>();
+  const dateStyles: boolean[] = [];
+  if (stylesDoc) {
+    for (const fmt of byTag(stylesDoc, "numFmt")) {
+      if (isDateFormatCode(fmt.getAttribute("formatCode") ?? "")) {
+        customDateFormats.add(Number(fmt.getAttribute("numFmtId")));
+      }
+    }
+    const cellXfs = byTag(stylesDoc, "cellXfs")[0];
+    for (const xf of cellXfs ? Array.from(cellXfs.children) : []) {
+      const id = Number(xf.getAttribute("numFmtId") ?? 0);
+      dateStyles.push(BUILTIN_DATE_FORMATS.has(id) || customDateFormats.has(id));
+    }
+  }
+
+  const readSheet = async (index: number): Promise<string[][]> => {
+    const sheet = sheets[index];
+    const doc = sheet ? await readXml(zip, sheet.path) : null;
+    if (!doc) throw new Error("Worksheet not found in workbook.");
+
+    const rows: string[][] = [];
+    byTag(doc, "row").forEach((rowEl, rowPosition) => {
+      const rowIndex = Number(rowEl.getAttribute("r") ?? rowPosition + 1) - 1;
+      const row: string[] = [];
+      byTag(rowEl, "c").forEach((cell, cellPosition) => {
+        const col = parseCellRef(cell.getAttribute("r") ?? "")?.col ?? cellPosition;
+        const type = cell.getAttribute("t") ?? "n";
+        const raw = byTag(cell, "v")[0]?.textContent ?? "";
+        const inline = byTag(cell, "is")[0];
+        let value = raw;
+        if (type === "s") {
+          value = sharedStrings[Number(raw)] ?? "";
+        } else if (type === "inlineStr") {
+          value = inline ? stringText(inline) : "";
+        } else if (type === "b") {
+          value = raw === "1" ? "TRUE" : "FALSE";
+        } else if (type === "n" && raw !== "" && dateStyles[Number(cell.getAttribute("s") ?? 0)]) {
+          value = serialToText(Number(raw), date1904);
+        }
+        row[col] = value.trim();
+      });
+      rows[rowIndex] = Array.from(row, (v) => v ?? "");
+    });
+    const dense = Array.from(rows, (row) => row ?? []);
+
+    // Merged cells store their value only in the top-left cell: copy it across
+    const merges = byTag(doc, "mergeCell").flatMap((m) => {
+      const range = parseRange(m.getAttribute("ref") ?? "");
+      return range ? [range] : [];
+    });
+    for (const { top, left, bottom, right } of merges) {
+      const value = dense[top]?.[left] ?? "";
+      for (let r = top; r <= bottom; r++) {
+        dense[r] = dense[r] ?? [];
+        for (let c = left; c <= right; c++) dense[r][c] = value;
+        dense[r] = Array.from(dense[r], (v) => v ?? "");
+      }
+    }
+
+    return foldMergedHeader(dense, merges);
+  };
+
+  return { sheetNames: sheets.map((s) => s.name), readSheet };
+};